@@ -0,0 +1,102 @@
+import { NextFunction, Request, Response, Router } from "express";
+import { DependencyGraphError } from "./errors";
+import { loadExpress } from "./express";
+import { IOverride, IOverrides, OverrideState } from "./types";
+
+/** Admin router options interface */
+export interface IAdminRouterOptions {
+    /** authorizes admin requests, requests are rejected with a 401 status code unless it returns or resolves to true */
+    authorize: (req: Request) => boolean | Promise<boolean>
+    /** the path the router will be mounted at, used to whitelist the endpoints.  default empty string */
+    mountPath?: string
+    /** path of the overrides endpoints, default '/overrides' */
+    overridesPath?: string
+}
+
+/** Target of readiness overrides changed through an admin router */
+export interface IOverrideProvider {
+    /** overrides the readiness of the service or of a dependency */
+    setOverride: (state: OverrideState, reason: string, ttlInMilliseconds?: number, dependency?: string) => IOverride
+    /** clears the readiness override of the service or of a dependency */
+    clearOverride: (dependency?: string) => void
+    /** returns the active readiness overrides */
+    getOverrides: () => IOverrides
+}
+
+const OverrideStates:OverrideState[] = ['ready', 'notReady']
+
+/**
+ * Returns the full paths of the endpoints exposed by an admin router
+ * @param options - Optional {IAdminRouterOptions}
+ */
+export const getAdminRouterPaths = (options?: Partial<IAdminRouterOptions>): string[] => {
+    const prefix = (options?.mountPath ?? '').replace(/\/$/, '')
+    const overridesPath = options?.overridesPath ?? '/overrides'
+
+    return [`${prefix}${overridesPath}`, `${prefix}${overridesPath}/:dependency`]
+}
+
+/**
+ * Builds an express router to view and change readiness overrides:
+ * - GET {overridesPath} returns the active overrides
+ * - PUT {overridesPath}[/:dependency] sets an override from a { state, reason, ttlInMilliseconds } JSON body
+ * - DELETE {overridesPath}[/:dependency] clears an override
+ * @param provider - {IOverrideProvider}
+ * @param options - {IAdminRouterOptions}
+ * @throws {TypeError} if an 'authorize' hook is not defined
+ */
+export const buildAdminRouter = (provider: IOverrideProvider, options: IAdminRouterOptions): Router => {
+    if (typeof options?.authorize !== 'function')
+        throw new TypeError('an admin router requires an authorize hook')
+
+    const overridesPath = options.overridesPath ?? '/overrides'
+    const paths = [overridesPath, `${overridesPath}/:dependency`]
+    const express = loadExpress()
+    const router = express.Router()
+
+    // applied per route rather than with 'router.use' so routes outside the router are not guarded when it is mounted
+    // at the root
+    const authorize = async (req: Request, res: Response, next: NextFunction) => {
+        try {
+            if (await options.authorize(req) === true)
+                return next()
+
+            res.sendStatus(401)
+        } catch (err) {
+            next(err)
+        }
+    }
+
+    router.get(overridesPath, authorize, (req: Request, res: Response) => {
+        res.json(provider.getOverrides())
+    })
+
+    router.put(paths, authorize, express.json(), (req: Request, res: Response) => {
+        const { state, reason, ttlInMilliseconds } = req.body ?? {}
+
+        if (!OverrideStates.includes(state))
+            return res.status(400).json({ error: `state must be one of ${OverrideStates.join(', ')}` })
+
+        if (typeof reason !== 'string' || reason.length === 0)
+            return res.status(400).json({ error: 'reason is required' })
+
+        if (ttlInMilliseconds !== undefined && !(typeof ttlInMilliseconds === 'number' && ttlInMilliseconds > 0))
+            return res.status(400).json({ error: 'ttlInMilliseconds must be a positive number' })
+
+        try {
+            res.json(provider.setOverride(state, reason, ttlInMilliseconds, req.params.dependency))
+        } catch (err) {
+            if (!(err instanceof DependencyGraphError))
+                throw err
+
+            res.status(404).json({ error: err.message })
+        }
+    })
+
+    router.delete(paths, authorize, (req: Request, res: Response) => {
+        provider.clearOverride(req.params.dependency)
+        res.sendStatus(204)
+    })
+
+    return router
+}
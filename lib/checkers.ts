@@ -0,0 +1,210 @@
+import { promises as dns } from "dns";
+import { promises as fs } from "fs";
+import { request as httpRequest } from "http";
+import { request as httpsRequest } from "https";
+import { connect } from "net";
+import { DefaultRedactionOptions } from "./config";
+import { censorUrlCredentials } from "./redaction";
+import { IDependency } from "./types";
+
+/** Options common to all checkers */
+export interface ICheckerOptions {
+    /** the name of the dependency */
+    name: string
+    /** indicates whether the dependency is critical, default true */
+    critical?: boolean
+    /** additional informational data about the dependency */
+    data?: {[key: string]: string}
+    /** interval in milliseconds in which to check if the dependency is ready */
+    retryIntervalInMilliseconds?: number
+    /** maximum time in milliseconds to wait for a single check */
+    checkTimeoutInMilliseconds?: number
+}
+
+/** HTTP checker options */
+export interface IHttpCheckerOptions extends ICheckerOptions {
+    /** the url to request */
+    url: string
+    /** the request method, default 'GET' */
+    method?: string
+    /** request headers */
+    headers?: {[key: string]: string}
+    /** expected response status code(s), default any 2xx status code */
+    expectedStatus?: number | number[]
+    /** expected response body, either a substring, a regular expression or a predicate */
+    expectedBody?: string | RegExp | ((body: string) => boolean)
+    /** socket timeout in milliseconds, default 5000 */
+    timeoutInMilliseconds?: number
+}
+
+/** TCP checker options */
+export interface ITcpCheckerOptions extends ICheckerOptions {
+    /** the host to connect to */
+    host: string
+    /** the port to connect to */
+    port: number
+    /** connection timeout in milliseconds, default 5000 */
+    timeoutInMilliseconds?: number
+}
+
+/** DNS checker options */
+export interface IDnsCheckerOptions extends ICheckerOptions {
+    /** the hostname to resolve */
+    hostname: string
+}
+
+/** File checker options */
+export interface IFileCheckerOptions extends ICheckerOptions {
+    /** the path of the file or socket which must exist */
+    path: string
+}
+
+/** A client with a 'ping' function, e.g. redis or mongo */
+export interface IPingableClient {
+    ping: () => Promise<unknown>
+}
+
+/** A client with a 'query' function, e.g. pg or mysql2 */
+export interface IQueryableClient {
+    query: (sql: string) => Promise<unknown>
+}
+
+/** Ping checker options */
+export interface IPingCheckerOptions extends ICheckerOptions {
+    /** the client to ping, 'ping' is used if defined otherwise 'query' */
+    client: IPingableClient | IQueryableClient
+    /** the query used if the client does not have a 'ping' function, default 'SELECT 1' */
+    query?: string
+}
+
+const DefaultSocketTimeoutInMilliseconds = 5000
+
+/**
+ * Creates a dependency which is ready when an HTTP endpoint responds with the expected status and body
+ * @param options - {IHttpCheckerOptions}
+ */
+export const httpChecker = (options: IHttpCheckerOptions): IDependency => {
+    const method = (options.method ?? 'GET').toUpperCase()
+    const isReady = () => new Promise<boolean>((resolve, reject) => {
+        const send = options.url.startsWith('https:') ? httpsRequest : httpRequest
+        const request = send(options.url, { method, headers: options.headers }, response => {
+            let body = ''
+            response.setEncoding('utf8')
+            response.on('data', chunk => body += chunk)
+            response.on('end', () => resolve(isExpectedStatus(response.statusCode, options.expectedStatus) && isExpectedBody(body, options.expectedBody)))
+            response.on('error', reject)
+        })
+
+        request.setTimeout(options.timeoutInMilliseconds ?? DefaultSocketTimeoutInMilliseconds, () => {
+            // error messages are returned by health checks, which only redact dependency data
+            request.destroy(new Error(`request to '${censorUrlCredentials(options.url, DefaultRedactionOptions.censor)}' timed out`))
+        })
+        request.on('error', reject)
+        request.end()
+    })
+
+    return createDependency(options, { url: options.url, method }, isReady)
+}
+
+/**
+ * Creates a dependency which is ready when a TCP connection can be established
+ * @param options - {ITcpCheckerOptions}
+ */
+export const tcpChecker = (options: ITcpCheckerOptions): IDependency => {
+    const isReady = () => new Promise<boolean>((resolve, reject) => {
+        const socket = connect({ host: options.host, port: options.port })
+
+        socket.setTimeout(options.timeoutInMilliseconds ?? DefaultSocketTimeoutInMilliseconds, () => {
+            socket.destroy(new Error(`connection to '${options.host}:${options.port}' timed out`))
+        })
+        socket.once('connect', () => {
+            socket.end()
+            resolve(true)
+        })
+        socket.once('error', reject)
+    })
+
+    return createDependency(options, { host: options.host, port: String(options.port) }, isReady)
+}
+
+/**
+ * Creates a dependency which is ready when a hostname can be resolved
+ * @param options - {IDnsCheckerOptions}
+ */
+export const dnsChecker = (options: IDnsCheckerOptions): IDependency => {
+    const isReady = async () => {
+        const address = await dns.lookup(options.hostname)
+        return !!address?.address
+    }
+
+    return createDependency(options, { hostname: options.hostname }, isReady)
+}
+
+/**
+ * Creates a dependency which is ready when a file or socket exists
+ * @param options - {IFileCheckerOptions}
+ */
+export const fileChecker = (options: IFileCheckerOptions): IDependency => {
+    const isReady = async () => {
+        try {
+            await fs.stat(options.path)
+            return true
+        } catch (err) {
+            if (err?.code === 'ENOENT')
+                return false
+
+            throw err
+        }
+    }
+
+    return createDependency(options, { path: options.path }, isReady)
+}
+
+/**
+ * Creates a dependency which is ready when a client responds to a 'ping' or 'query' call, e.g. pg, mysql, redis or mongo
+ * clients.  The dependency is not ready if the call rejects or resolves to false
+ * @param options - {IPingCheckerOptions}
+ */
+export const pingChecker = (options: IPingCheckerOptions): IDependency => {
+    const { client } = options
+    const query = options.query ?? 'SELECT 1'
+    const pingable = typeof (client as IPingableClient).ping === 'function'
+    const isReady = async () => {
+        const result = pingable
+            ? await (client as IPingableClient).ping()
+            : await (client as IQueryableClient).query(query)
+
+        return result !== false
+    }
+
+    return createDependency(options, pingable ? { check: 'ping' } : { check: 'query', query }, isReady)
+}
+
+const createDependency = (options: ICheckerOptions, data: {[key: string]: string}, isReady: () => Promise<boolean>): IDependency => ({
+    name: options.name,
+    data: { ...data, ...(options.data ?? {}) },
+    critical: options.critical ?? true,
+    isReady,
+    retryIntervalInMilliseconds: options.retryIntervalInMilliseconds,
+    checkTimeoutInMilliseconds: options.checkTimeoutInMilliseconds
+})
+
+const isExpectedStatus = (statusCode: number, expectedStatus?: number | number[]): boolean => {
+    if (expectedStatus === undefined)
+        return statusCode >= 200 && statusCode < 300
+
+    return Array.isArray(expectedStatus) ? expectedStatus.includes(statusCode) : statusCode === expectedStatus
+}
+
+const isExpectedBody = (body: string, expectedBody?: string | RegExp | ((body: string) => boolean)): boolean => {
+    if (expectedBody === undefined)
+        return true
+
+    if (typeof expectedBody === 'string')
+        return body.includes(expectedBody)
+
+    if (expectedBody instanceof RegExp)
+        return expectedBody.test(body)
+
+    return expectedBody(body)
+}
@@ -0,0 +1,71 @@
+import { CheckTimeoutError } from "./errors";
+import { IBackoffPolicy, IDependencyCheckError, IDependencyStatus } from "./types";
+
+/**
+ * Runs a readiness or health check, rejecting with a {CheckTimeoutError} if it does not complete in time
+ * @param check - the check to run
+ * @param timeoutInMilliseconds - Optional timeout, the check will not time out if undefined
+ */
+export const runCheck = <T>(check: () => Promise<T>, timeoutInMilliseconds?: number): Promise<T> => {
+    if (!timeoutInMilliseconds)
+        return check()
+
+    return new Promise((resolve, reject) => {
+        const timeoutId = setTimeout(() => reject(new CheckTimeoutError(timeoutInMilliseconds)), timeoutInMilliseconds)
+
+        check()
+            .then(resolve, reject)
+            .finally(() => clearTimeout(timeoutId))
+    })
+}
+
+/**
+ * Returns the delay in milliseconds before the given retry attempt
+ * @param policy - {IBackoffPolicy} with defaults applied
+ * @param attempt - the number of attempts made so far, starting at 1
+ */
+export const getBackoffDelayInMilliseconds = (policy: IBackoffPolicy, attempt: number): number => {
+    const interval = Math.min(
+        policy.initialIntervalInMilliseconds * Math.pow(policy.multiplier, Math.max(attempt - 1, 0)),
+        policy.maximumIntervalInMilliseconds)
+    const jitter = interval * policy.jitter * (Math.random() * 2 - 1)
+
+    return Math.max(Math.round(interval + jitter), 0)
+}
+
+/**
+ * Returns a description of an error thrown by a check
+ * @param err - the error
+ */
+export const describeCheckError = (err: unknown): string => {
+    if (err instanceof CheckTimeoutError)
+        return err.message
+
+    return `error: ${getErrorMessage(err)}`
+}
+
+/**
+ * Returns the status of a dependency from the result of an 'isReady' or 'isHealthy' check
+ * @param result - a boolean or {IDependencyStatus}
+ */
+export const toDependencyStatus = (result: boolean | IDependencyStatus): IDependencyStatus => {
+    if (result !== null && typeof result === 'object')
+        return { healthy: result.healthy === true, details: result.details }
+
+    return { healthy: result === true }
+}
+
+/**
+ * Returns the message and type of an error thrown by a check
+ * @param err - the error
+ */
+export const toDependencyCheckError = (err: unknown): IDependencyCheckError => ({
+    message: String(getErrorMessage(err)),
+    type: err instanceof Error ? err.name : typeof err
+})
+
+const getErrorMessage = (err: unknown): unknown =>
+    (err !== null && typeof err === 'object' && 'message' in err && err.message) || err
+
+export const sleep = (timeoutInMilliseconds: number): Promise<void> =>
+    new Promise(resolve => setTimeout(resolve, timeoutInMilliseconds))
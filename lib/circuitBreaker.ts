@@ -0,0 +1,138 @@
+import { toDependencyStatus } from "./checks";
+import { CircuitOpenError } from "./errors";
+import { CircuitBreakerState, ICircuitBreakerPolicy, ICircuitBreakerStatus, IDependency, IDependencyStatus, IStructuredLogger } from "./types";
+
+/**
+ * Wraps the checks of a dependency, short-circuiting them once 'failureThreshold' consecutive checks fail.  After the
+ * cool-down a single probing check is let through which closes the circuit if it passes and opens it again if not.  A
+ * probe which has not settled within the cool-down is abandoned and another probe is let through
+ */
+export class CircuitBreaker {
+    private state:CircuitBreakerState = 'closed'
+    private consecutiveFailures = 0
+    private openedAt:Date
+    private probeStartedAt:number
+
+    /**
+     * @param name - the name of the dependency
+     * @param policy - {ICircuitBreakerPolicy} with defaults applied
+     */
+    constructor(private readonly name: string, private readonly policy: ICircuitBreakerPolicy) {
+    }
+
+    /**
+     * Runs a check unless the circuit is open.  A check fails if it throws or resolves to an unhealthy status
+     * @param check - the 'isReady' or 'isHealthy' check to run
+     * @param logger - Optional {IStructuredLogger} state changes and short-circuited checks are logged to
+     * @throws {CircuitOpenError} if the check is short-circuited
+     */
+    async execute<T extends boolean | IDependencyStatus>(check: () => Promise<T>, logger?: IStructuredLogger): Promise<T> {
+        if (!this.allowCheck(logger)) {
+            logger?.debug(`Skipped checking dependency '${this.name}' as its circuit breaker is open`, { dependency: this.name, circuitBreaker: this.state })
+            throw new CircuitOpenError(this.name, this.getNextAttemptAt())
+        }
+
+        const probeStartedAt = this.probeStartedAt
+
+        try {
+            const result = await check()
+            this.recordResult(toDependencyStatus(result).healthy, probeStartedAt, logger)
+            return result
+        } catch (err) {
+            this.recordResult(false, probeStartedAt, logger)
+            throw err
+        }
+    }
+
+    /**
+     * Returns the status of the circuit breaker
+     */
+    getStatus(): ICircuitBreakerStatus {
+        const status:ICircuitBreakerStatus = { state: this.state, consecutiveFailures: this.consecutiveFailures }
+
+        if (this.openedAt)
+            status.openedAt = this.openedAt
+
+        if (this.state === 'open' || this.probeStartedAt !== undefined)
+            status.nextAttemptAt = this.getNextAttemptAt()
+
+        return status
+    }
+
+    private allowCheck(logger?: IStructuredLogger): boolean {
+        if (this.state === 'closed')
+            return true
+
+        if (this.state === 'open') {
+            if (Date.now() < this.getNextAttemptAt().getTime())
+                return false
+
+            this.changeState('halfOpen', logger, `Circuit breaker for dependency '${this.name}' is half-open, probing the dependency`)
+        }
+
+        if (this.probeStartedAt !== undefined && Date.now() < this.getNextAttemptAt().getTime())
+            return false
+
+        this.probeStartedAt = Date.now()
+        return true
+    }
+
+    private recordResult(healthy: boolean, probeStartedAt: number | undefined, logger?: IStructuredLogger) {
+        // the result of an abandoned probe is ignored as another probe has been let through since
+        if (probeStartedAt !== this.probeStartedAt)
+            return
+
+        this.probeStartedAt = undefined
+
+        if (healthy) {
+            this.consecutiveFailures = 0
+
+            if (this.state !== 'closed')
+                this.changeState('closed', logger, `Circuit breaker for dependency '${this.name}' closed`)
+
+            return
+        }
+
+        this.consecutiveFailures++
+
+        if (this.state === 'halfOpen' || (this.state === 'closed' && this.consecutiveFailures >= this.policy.failureThreshold)) {
+            this.openedAt = new Date()
+            this.changeState('open', logger,
+                `Circuit breaker for dependency '${this.name}' opened after ${this.consecutiveFailures} consecutive failures, checks are short-circuited for ${this.policy.coolDownInMilliseconds} milliseconds`)
+        }
+    }
+
+    private changeState(state: CircuitBreakerState, logger: IStructuredLogger | undefined, message: string) {
+        this.state = state
+
+        if (state === 'open')
+            logger?.warn(message, { dependency: this.name, circuitBreaker: state })
+        else
+            logger?.info(message, { dependency: this.name, circuitBreaker: state })
+    }
+
+    private getNextAttemptAt(): Date {
+        const from = this.state === 'halfOpen' && this.probeStartedAt !== undefined ? this.probeStartedAt : this.openedAt.getTime()
+
+        return new Date(from + this.policy.coolDownInMilliseconds)
+    }
+}
+
+const circuitBreakers = new WeakMap<IDependency, CircuitBreaker>()
+
+/**
+ * Returns the circuit breaker of a dependency, shared by readiness and health checks so both are short-circuited once
+ * the circuit opens.  The breaker is created with the policy it is first requested with
+ * @param dependency - {IDependency}
+ * @param policy - Optional {ICircuitBreakerPolicy} with defaults applied, undefined if no policy is configured
+ * @returns the circuit breaker, or undefined if no policy is configured
+ */
+export const getCircuitBreaker = (dependency: IDependency, policy?: ICircuitBreakerPolicy): CircuitBreaker | undefined => {
+    if (!policy)
+        return undefined
+
+    if (!circuitBreakers.has(dependency))
+        circuitBreakers.set(dependency, new CircuitBreaker(dependency.name, policy))
+
+    return circuitBreakers.get(dependency)
+}
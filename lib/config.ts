@@ -0,0 +1,141 @@
+import { IBackoffPolicy, ICircuitBreakerPolicy, IConfig, IDependency, IFlapDetectionPolicy, IRedactionOptions } from "./types";
+
+export const DefaultConfig:IConfig = {
+    retryIntervalInMilliseconds: 2000,
+    maximumWaitTimeForServiceReadinessInMilliseconds: 30000,
+    whitelistedPaths: [],
+    notReadyStatusCode: 503,
+    notReadyResponse: 'status',
+    logOutDependenciesDataOnFailure: false,
+    continuousMonitoring: false,
+    monitoringIntervalInMilliseconds: 10000,
+    consecutiveFailuresBeforeNotReady: 3,
+    onReadinessTimeout: { action: 'exit', exitCode: 1 },
+    healthCheckAttempts: 1,
+    healthCacheTtlInMilliseconds: 0,
+    drainTimeoutInMilliseconds: 30000,
+    historySize: 50
+}
+
+export const DefaultBackoffPolicy:IBackoffPolicy = {
+    multiplier: 2,
+    maximumIntervalInMilliseconds: 30000,
+    jitter: 0
+}
+
+export const DefaultCircuitBreakerPolicy:ICircuitBreakerPolicy = {
+    failureThreshold: 5,
+    coolDownInMilliseconds: 30000
+}
+
+export const DefaultFlapDetectionPolicy:IFlapDetectionPolicy = {
+    transitionThreshold: 4,
+    windowInMilliseconds: 60000,
+    stableForInMilliseconds: 30000
+}
+
+export const DefaultRedactionOptions:IRedactionOptions = {
+    keyPatterns: [/passw(or)?d|pwd|secret|token|api[-_]?key|credential|private[-_]?key/i],
+    stripUrlCredentials: true,
+    censor: '[REDACTED]'
+}
+
+/**
+ * Returns a copy of the configuration with any undefined values set from the DefaultConfig
+ * @param config - Optional {IConfig}
+ */
+export const resolveConfiguration = (config?: IConfig): IConfig => {
+    const configuration:IConfig = { ...(config ?? {}) }
+
+    Object.keys(DefaultConfig).forEach(key => {
+        if (configuration[key] === null || configuration[key] === undefined) {
+            configuration[key] = DefaultConfig[key]
+        }
+    })
+
+    return configuration
+}
+
+export const getRetryIntervalInMilliseconds = (config: IConfig, dependency: IDependency): number => {
+    let retryIntervalInMilliseconds = config.retryIntervalInMilliseconds ?? DefaultConfig.retryIntervalInMilliseconds
+
+    if (dependency.retryIntervalInMilliseconds)
+        retryIntervalInMilliseconds = dependency.retryIntervalInMilliseconds
+
+    return retryIntervalInMilliseconds as number
+}
+
+export const getCheckTimeoutInMilliseconds = (config: IConfig, dependency: IDependency): number | undefined =>
+    dependency.checkTimeoutInMilliseconds ?? config.checkTimeoutInMilliseconds
+
+export const getHealthCacheTtlInMilliseconds = (config: IConfig, dependency: IDependency): number =>
+    dependency.healthCacheTtlInMilliseconds ?? config.healthCacheTtlInMilliseconds ?? DefaultConfig.healthCacheTtlInMilliseconds
+
+/**
+ * Returns the backoff policy for a dependency with defaults applied, or undefined if no policy is configured
+ * @param config - {IConfig}
+ * @param dependency - {IDependency}
+ */
+export const getBackoffPolicy = (config: IConfig, dependency: IDependency): IBackoffPolicy | undefined => {
+    const backoff = dependency.backoff ?? config.backoff
+
+    if (!backoff)
+        return undefined
+
+    return {
+        initialIntervalInMilliseconds: backoff.initialIntervalInMilliseconds ?? getRetryIntervalInMilliseconds(config, dependency),
+        multiplier: backoff.multiplier ?? DefaultBackoffPolicy.multiplier,
+        maximumIntervalInMilliseconds: backoff.maximumIntervalInMilliseconds ?? DefaultBackoffPolicy.maximumIntervalInMilliseconds,
+        jitter: backoff.jitter ?? DefaultBackoffPolicy.jitter
+    }
+}
+
+/**
+ * Returns the circuit breaker policy for a dependency with defaults applied, or undefined if no policy is configured
+ * @param config - {IConfig}
+ * @param dependency - {IDependency}
+ */
+export const getCircuitBreakerPolicy = (config: IConfig, dependency: IDependency): ICircuitBreakerPolicy | undefined => {
+    const circuitBreaker = dependency.circuitBreaker ?? config.circuitBreaker
+
+    if (!circuitBreaker)
+        return undefined
+
+    return {
+        failureThreshold: Math.max(circuitBreaker.failureThreshold ?? DefaultCircuitBreakerPolicy.failureThreshold, 1),
+        coolDownInMilliseconds: circuitBreaker.coolDownInMilliseconds ?? DefaultCircuitBreakerPolicy.coolDownInMilliseconds
+    }
+}
+
+/**
+ * Returns the redaction options with defaults applied, or undefined if redaction is disabled
+ * @param config - {IConfig}
+ */
+export const getRedactionOptions = (config: IConfig): IRedactionOptions | undefined => {
+    if (config?.redaction === false)
+        return undefined
+
+    return {
+        keyPatterns: config?.redaction?.keyPatterns ?? DefaultRedactionOptions.keyPatterns,
+        stripUrlCredentials: config?.redaction?.stripUrlCredentials ?? DefaultRedactionOptions.stripUrlCredentials,
+        censor: config?.redaction?.censor ?? DefaultRedactionOptions.censor,
+        redactor: config?.redaction?.redactor
+    }
+}
+
+/**
+ * Returns the flap detection policy with defaults applied, or undefined if flapping is not detected
+ * @param config - {IConfig}
+ */
+export const getFlapDetectionPolicy = (config: IConfig): IFlapDetectionPolicy | undefined => {
+    const flapDetection = config.flapDetection
+
+    if (!flapDetection)
+        return undefined
+
+    return {
+        transitionThreshold: Math.max(flapDetection.transitionThreshold ?? DefaultFlapDetectionPolicy.transitionThreshold, 2),
+        windowInMilliseconds: flapDetection.windowInMilliseconds ?? DefaultFlapDetectionPolicy.windowInMilliseconds,
+        stableForInMilliseconds: flapDetection.stableForInMilliseconds ?? DefaultFlapDetectionPolicy.stableForInMilliseconds
+    }
+}
@@ -0,0 +1,60 @@
+import { IDependencyReadinessState } from "./types";
+
+/** Error raised when critical dependencies do not become ready within the maximum wait time */
+export class ReadinessTimeoutError extends Error {
+    /** readiness state of each critical dependency at the time of the timeout */
+    readonly dependencies: IDependencyReadinessState[]
+
+    constructor(dependencies: IDependencyReadinessState[]) {
+        super('All critical dependencies did not become healthy')
+        this.name = 'ReadinessTimeoutError'
+        this.dependencies = dependencies
+    }
+}
+
+/** Error raised when a dependency check does not complete within its timeout */
+export class CheckTimeoutError extends Error {
+    /** the timeout in milliseconds which expired */
+    readonly timeoutInMilliseconds: number
+
+    constructor(timeoutInMilliseconds: number) {
+        super(`check timed out after ${timeoutInMilliseconds} milliseconds`)
+        this.name = 'CheckTimeoutError'
+        this.timeoutInMilliseconds = timeoutInMilliseconds
+    }
+}
+
+/** Error raised when a dependency check is short-circuited because the circuit breaker of the dependency is open */
+export class CircuitOpenError extends Error {
+    /** when checks will next be probed */
+    readonly nextAttemptAt: Date
+
+    constructor(dependency: string, nextAttemptAt: Date) {
+        super(`circuit breaker for dependency '${dependency}' is open until ${nextAttemptAt.toISOString()}`)
+        this.name = 'CircuitOpenError'
+        this.nextAttemptAt = nextAttemptAt
+    }
+}
+
+/** Error raised when a startup task fails on every attempt */
+export class StartupTaskError extends Error {
+    /** the number of attempts made */
+    readonly attempts: number
+    /** the error thrown by the last attempt */
+    readonly cause: unknown
+
+    constructor(task: string, attempts: number, cause: unknown) {
+        super(`startup task '${task}' failed after ${attempts} attempt${attempts === 1 ? '' : 's'}, ${(cause as Error)?.message || cause}`)
+        this.name = 'StartupTaskError'
+        this.attempts = attempts
+        this.cause = cause
+    }
+}
+
+/** Error raised when dependencies declare unknown or cyclic 'dependsOn' prerequisites */
+export class DependencyGraphError extends Error {
+    constructor(message: string) {
+        super(message)
+        this.name = 'DependencyGraphError'
+    }
+}
@@ -0,0 +1,5 @@
+/**
+ * Loads express when a router is built rather than when the module is loaded, so the module can be used without
+ * express installed, e.g. by workers which only wait for readiness
+ */
+export const loadExpress = (): typeof import("express") => require("express")
@@ -0,0 +1,159 @@
+import { IDependenciesHealth, IOverride } from "./types";
+
+/** Converts readiness and health results into the response format of a health endpoint */
+export interface IHealthFormatter {
+    /** content type of formatted responses */
+    contentType: string
+    /** formats the result of a health check */
+    formatHealth: (health: IDependenciesHealth) => object
+    /** formats whether the service is ready */
+    formatReadiness: (ready: boolean) => object
+}
+
+/** Response format of a health endpoint, either a built in format or a custom {IHealthFormatter} */
+export type HealthFormat = 'default' | 'health+json' | 'actuator' | IHealthFormatter
+
+/** Status of an 'application/health+json' response or check */
+export type HealthJsonStatus = 'pass' | 'warn' | 'fail'
+
+/** A check of an 'application/health+json' response */
+export interface IHealthJsonCheck {
+    /** the name of the dependency */
+    componentId: string
+    /** the type of the component, always 'component' */
+    componentType: string
+    /** 'pass' if healthy, otherwise 'fail' if critical and 'warn' if not */
+    status: HealthJsonStatus
+    /** how long the check took */
+    observedValue: number
+    /** the unit of the observed value, always 'ms' */
+    observedUnit: string
+    /** when the check was performed */
+    time: string
+    /** the error message or override reason */
+    output?: string
+}
+
+/** An 'application/health+json' response as described by the IETF 'Health Check Response Format for HTTP APIs' draft */
+export interface IHealthJson {
+    /** the overall status of the service */
+    status: HealthJsonStatus
+    /** the service readiness override, if overridden */
+    notes?: string[]
+    /** checks keyed by '{dependency}:responseTime' */
+    checks?: {[key: string]: IHealthJsonCheck[]}
+}
+
+/** Status of a Spring Boot Actuator style response or component */
+export type ActuatorStatus = 'UP' | 'DOWN'
+
+/** A component of a Spring Boot Actuator style response */
+export interface IActuatorComponent {
+    /** 'UP' if the dependency is healthy otherwise 'DOWN' */
+    status: ActuatorStatus
+    /** the health of the dependency excluding its name and status */
+    details: {[key: string]: unknown}
+}
+
+/** A Spring Boot Actuator style health response */
+export interface IActuatorHealth {
+    /** the overall status of the service */
+    status: ActuatorStatus
+    /** components keyed by dependency name */
+    components?: {[name: string]: IActuatorComponent}
+}
+
+/**
+ * Converts a health result into the 'application/health+json' format.  The status is 'fail' if a critical dependency
+ * is not healthy and 'warn' if the service is degraded, each dependency is reported as a 'responseTime' check
+ * @param health - {IDependenciesHealth}
+ */
+export const toHealthJson = (health: IDependenciesHealth): IHealthJson => {
+    const checks:{[key: string]: IHealthJsonCheck[]} = {}
+
+    health.dependencies.forEach(dependency => {
+        const check:IHealthJsonCheck = {
+            componentId: dependency.name,
+            componentType: 'component',
+            status: dependency.healthy ? 'pass' : dependency.critical ? 'fail' : 'warn',
+            observedValue: dependency.latencyInMilliseconds,
+            observedUnit: 'ms',
+            time: dependency.lastCheckedAt.toISOString()
+        }
+
+        if (dependency.error)
+            check.output = dependency.error.message
+        else if (dependency.override)
+            check.output = describeOverride(dependency.override)
+
+        checks[`${dependency.name}:responseTime`] = [check]
+    })
+
+    const healthJson:IHealthJson = {
+        status: !health.allCriticalDependenciesHealthy ? 'fail' : health.degraded ? 'warn' : 'pass',
+        checks
+    }
+
+    if (health.override)
+        healthJson.notes = [describeOverride(health.override)]
+
+    return healthJson
+}
+
+/**
+ * Converts a health result into the Spring Boot Actuator style format.  The status is 'DOWN' if a critical dependency
+ * is not healthy, each dependency is reported as a component
+ * @param health - {IDependenciesHealth}
+ */
+export const toActuatorHealth = (health: IDependenciesHealth): IActuatorHealth => {
+    const components:{[name: string]: IActuatorComponent} = {}
+
+    health.dependencies.forEach(dependency => {
+        const { name, healthy, ...details } = dependency
+        components[name] = { status: healthy ? 'UP' : 'DOWN', details }
+    })
+
+    return {
+        status: health.allCriticalDependenciesHealthy ? 'UP' : 'DOWN',
+        components
+    }
+}
+
+export const defaultFormatter:IHealthFormatter = {
+    contentType: 'application/json',
+    formatHealth: health => health,
+    formatReadiness: ready => ({ ready })
+}
+
+export const healthJsonFormatter:IHealthFormatter = {
+    contentType: 'application/health+json',
+    formatHealth: toHealthJson,
+    formatReadiness: ready => ({ status: ready ? 'pass' : 'fail' })
+}
+
+export const actuatorFormatter:IHealthFormatter = {
+    contentType: 'application/json',
+    formatHealth: toActuatorHealth,
+    formatReadiness: ready => ({ status: ready ? 'UP' : 'DOWN' })
+}
+
+/**
+ * Returns the formatter of a health format
+ * @param format - Optional {HealthFormat}, default 'default'
+ */
+export const getHealthFormatter = (format?: HealthFormat): IHealthFormatter => {
+    if (typeof format === 'object')
+        return format
+
+    switch (format) {
+        case 'health+json':
+            return healthJsonFormatter
+        case 'actuator':
+            return actuatorFormatter
+        default:
+            return defaultFormatter
+    }
+}
+
+const describeOverride = (override: IOverride): string =>
+    `readiness overridden to '${override.state}', reason: ${override.reason}`
@@ -0,0 +1,94 @@
+import { DependencyGraphError } from "./errors";
+import { IDependency, IDependencyTreeNode } from "./types";
+
+/**
+ * Validates that every 'dependsOn' prerequisite exists and that there are no cycles
+ * @param dependencies - Array of {IDependency} objects
+ * @throws {DependencyGraphError}
+ */
+export const validateDependencyGraph = (dependencies: IDependency[]): void => {
+    const dependenciesByName = new Map(dependencies.map(x => [x.name, x]))
+
+    for (const dependency of dependencies) {
+        for (const prerequisite of getPrerequisites(dependency)) {
+            if (!dependenciesByName.has(prerequisite))
+                throw new DependencyGraphError(`dependency '${dependency.name}' depends on unknown dependency '${prerequisite}'`)
+        }
+    }
+
+    const visited = new Set<string>()
+    const path:string[] = []
+
+    const visit = (name: string) => {
+        const index = path.indexOf(name)
+
+        if (index !== -1)
+            throw new DependencyGraphError(`circular dependency detected: ${[...path.slice(index), name].join(' -> ')}`)
+
+        if (visited.has(name))
+            return
+
+        path.push(name)
+        getPrerequisites(dependenciesByName.get(name)).forEach(visit)
+        path.pop()
+        visited.add(name)
+    }
+
+    dependencies.forEach(x => visit(x.name))
+}
+
+/**
+ * Returns the names of the dependencies a dependency directly depends on
+ * @param dependency - {IDependency}
+ */
+export const getPrerequisites = (dependency: IDependency): string[] => dependency.dependsOn ?? []
+
+/**
+ * Returns the given dependencies along with all of their transitive prerequisites
+ * @param dependencies - Array of all {IDependency} objects
+ * @param required - Array of {IDependency} objects whose prerequisites are required
+ */
+export const withPrerequisites = (dependencies: IDependency[], required: IDependency[]): IDependency[] => {
+    const dependenciesByName = new Map(dependencies.map(x => [x.name, x]))
+    const names = new Set<string>()
+
+    const add = (dependency: IDependency) => {
+        if (names.has(dependency.name))
+            return
+
+        names.add(dependency.name)
+        getPrerequisites(dependency).forEach(x => add(dependenciesByName.get(x)))
+    }
+
+    required.forEach(add)
+
+    return dependencies.filter(x => names.has(x.name))
+}
+
+/**
+ * Returns true if any dependency declares prerequisites
+ * @param dependencies - Array of {IDependency} objects
+ */
+export const hasDependencyGraph = (dependencies: IDependency[]): boolean =>
+    dependencies.some(x => getPrerequisites(x).length > 0)
+
+/**
+ * Builds the dependency tree, roots are the dependencies no other dependency depends on.  Prerequisites which are not
+ * in the given dependencies are omitted, as are prerequisites which would form a cycle
+ * @param dependencies - Array of {IDependency} objects
+ */
+export const buildDependencyTree = (dependencies: IDependency[]): IDependencyTreeNode[] => {
+    const dependenciesByName = new Map(dependencies.map(x => [x.name, x]))
+    const prerequisiteNames = new Set(dependencies.flatMap(getPrerequisites))
+
+    const buildNode = (dependency: IDependency, ancestors: string[]): IDependencyTreeNode => ({
+        name: dependency.name,
+        dependsOn: getPrerequisites(dependency)
+            .filter(x => dependenciesByName.has(x) && !ancestors.includes(x))
+            .map(x => buildNode(dependenciesByName.get(x), [...ancestors, dependency.name]))
+    })
+
+    return dependencies
+        .filter(x => !prerequisiteNames.has(x.name))
+        .map(x => buildNode(x, []))
+}
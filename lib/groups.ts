@@ -0,0 +1,154 @@
+import { runCheck, toDependencyCheckError, toDependencyStatus } from "./checks";
+import { IDependency, IDependencyCheckError, IDependencyStatus } from "./types";
+
+/** Minimum number of healthy members of a group, either a count or a percentage of the members, e.g. 2 or '50%' */
+export type Quorum = number | `${number}%`
+
+/** Dependency group options */
+export interface IDependencyGroupOptions {
+    /** the name of the group */
+    name: string
+    /** the redundant dependencies of the group, e.g. read replicas or brokers */
+    members: IDependency[]
+    /** minimum number of members which must be ready or healthy for the group to be */
+    minimumHealthy: Quorum
+    /** indicates whether the group is critical, default true */
+    critical?: boolean
+    /** additional informational data about the group */
+    data?: {[key: string]: string}
+    /** interval in milliseconds in which to check if the group is ready */
+    retryIntervalInMilliseconds?: number
+    /** maximum time in milliseconds to wait for a single check of the group */
+    checkTimeoutInMilliseconds?: number
+}
+
+/** Health of a member of a dependency group */
+export interface IDependencyGroupMemberHealth {
+    /** the name of the member */
+    name: string
+    /** indicates whether the member is healthy using 'isHealthy' if defined otherwise 'isReady' */
+    healthy: boolean
+    /** how long the health check of the member took in milliseconds */
+    latencyInMilliseconds: number
+    /** the error thrown by the health check of the member, undefined if the check did not throw */
+    error?: IDependencyCheckError
+    /** status detail returned by 'isHealthy' of the member */
+    details?: {[key: string]: unknown}
+}
+
+/** Status detail of a dependency group, reported as the 'details' of the group's health */
+export interface IDependencyGroupDetails {
+    /** minimum number of members which must be healthy */
+    minimumHealthy: number
+    /** number of healthy members */
+    healthyMembers: number
+    /** total number of members */
+    totalMembers: number
+    /** health of each member */
+    members: IDependencyGroupMemberHealth[]
+}
+
+/**
+ * Returns the minimum number of healthy members of a group
+ * @param quorum - {Quorum}
+ * @param totalMembers - the number of members of the group
+ * @throws {TypeError} if the quorum is not between 1 and the number of members or 1% and 100%
+ */
+export const getMinimumHealthy = (quorum: Quorum, totalMembers: number): number => {
+    if (typeof quorum === 'string') {
+        const percentage = Number(quorum.slice(0, -1))
+
+        if (!quorum.endsWith('%') || !(percentage > 0 && percentage <= 100))
+            throw new TypeError(`quorum '${quorum}' must be a percentage between 1% and 100%`)
+
+        return Math.max(Math.ceil(totalMembers * percentage / 100), 1)
+    }
+
+    if (!Number.isInteger(quorum) || quorum < 1 || quorum > totalMembers)
+        throw new TypeError(`quorum ${quorum} must be an integer between 1 and the number of members (${totalMembers})`)
+
+    return quorum
+}
+
+/**
+ * Creates a dependency for a group of redundant dependencies which is ready or healthy while at least the minimum
+ * number of its members are.  The group is tracked as a single dependency, so members should not also be passed to
+ * the middleware.  A readiness check of the group settles as soon as the quorum is met or can no longer be met, a
+ * health check reports the health of each member in its 'details', see {IDependencyGroupDetails}
+ * @param options - {IDependencyGroupOptions}
+ * @throws {TypeError} if the group has no members, members share a name or the quorum is invalid
+ */
+export const createDependencyGroup = (options: IDependencyGroupOptions): IDependency => {
+    const { name, members } = options
+
+    if (!members?.length)
+        throw new TypeError(`dependency group '${name}' has no members`)
+
+    const names = members.map(x => x.name)
+    const duplicate = names.find((x, i) => names.indexOf(x) !== i)
+
+    if (duplicate !== undefined)
+        throw new TypeError(`dependency group '${name}' has more than one member named '${duplicate}'`)
+
+    const minimumHealthy = getMinimumHealthy(options.minimumHealthy, members.length)
+
+    const isReady = (): Promise<boolean> => new Promise(resolve => {
+        let readyMembers = 0
+        let notReadyMembers = 0
+
+        members.forEach(member => {
+            runCheck(member.isReady, member.checkTimeoutInMilliseconds)
+                .then(ready => ready === true, () => false)
+                .then(ready => {
+                    if (ready)
+                        readyMembers++
+                    else
+                        notReadyMembers++
+
+                    if (readyMembers >= minimumHealthy)
+                        resolve(true)
+                    else if (notReadyMembers > members.length - minimumHealthy)
+                        resolve(false)
+                })
+        })
+    })
+
+    const isHealthy = async (): Promise<IDependencyStatus> => {
+        const memberHealth = await Promise.all(members.map(checkMemberHealth))
+        const healthyMembers = memberHealth.filter(x => x.healthy).length
+        const details:IDependencyGroupDetails = {
+            minimumHealthy,
+            healthyMembers,
+            totalMembers: members.length,
+            members: memberHealth
+        }
+
+        return { healthy: healthyMembers >= minimumHealthy, details: { ...details } }
+    }
+
+    return {
+        name,
+        data: { members: names.join(', '), minimumHealthy: String(minimumHealthy), ...(options.data ?? {}) },
+        critical: options.critical ?? true,
+        isReady,
+        isHealthy,
+        retryIntervalInMilliseconds: options.retryIntervalInMilliseconds,
+        checkTimeoutInMilliseconds: options.checkTimeoutInMilliseconds
+    }
+}
+
+const checkMemberHealth = async (member: IDependency): Promise<IDependencyGroupMemberHealth> => {
+    const startTime = Date.now()
+
+    try {
+        const status = toDependencyStatus(await runCheck<boolean | IDependencyStatus>(member.isHealthy ?? member.isReady, member.checkTimeoutInMilliseconds))
+        const memberHealth:IDependencyGroupMemberHealth = { name: member.name, healthy: status.healthy, latencyInMilliseconds: Date.now() - startTime }
+
+        if (status.details)
+            memberHealth.details = status.details
+
+        return memberHealth
+    } catch (err) {
+        return { name: member.name, healthy: false, latencyInMilliseconds: Date.now() - startTime, error: toDependencyCheckError(err) }
+    }
+}
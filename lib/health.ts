@@ -0,0 +1,221 @@
+import {
+    describeCheckError,
+    getBackoffDelayInMilliseconds,
+    runCheck,
+    sleep,
+    toDependencyCheckError,
+    toDependencyStatus
+} from "./checks";
+import { getCircuitBreaker } from "./circuitBreaker";
+import {
+    getBackoffPolicy,
+    getCheckTimeoutInMilliseconds,
+    getCircuitBreakerPolicy,
+    getHealthCacheTtlInMilliseconds,
+    getRetryIntervalInMilliseconds,
+    resolveConfiguration
+} from "./config";
+import { CircuitOpenError } from "./errors";
+import { buildDependencyTree, getPrerequisites, hasDependencyGraph } from "./graph";
+import { HealthCheckCache, IHealthCheckOutcome, IHealthCheckResult } from "./healthCache";
+import { dependencyLogContext, formatDataSuffix, toStructuredLogger } from "./logging";
+import { redactData } from "./redaction";
+import {
+    IConfig,
+    IDependenciesHealth,
+    IDependency,
+    IDependencyHealth,
+    IDependencyReadinessHistory,
+    IDependencyStatus,
+    IHealthCheckOptions,
+    ILogger,
+    IOverrides,
+    IStructuredLogger
+} from "./types";
+
+/**
+ * Checks the health of all dependencies using the given configuration and logger.  A dependency is only deemed healthy
+ * if all of its 'dependsOn' prerequisites are healthy, prerequisites which are not checked do not block it.  Overridden dependencies are reported with the overridden state
+ * and dependencies with a readiness history are reported as flapping, and unhealthy, if they are, along with their history
+ * if requested
+ * @param dependencies - Array of {IDependency} objects
+ * @param config - Optional configuration
+ * @param logger - Optional {ILogger} or {IStructuredLogger}
+ * @param options - Optional {IHealthCheckOptions}
+ * @param cache - Optional {HealthCheckCache} used to cache and coalesce checks across calls
+ * @param overrides - Optional active {IOverrides}
+ * @param histories - Optional {IDependencyReadinessHistory} of tracked dependencies
+ */
+export const checkDependenciesHealthWith = async (dependencies: IDependency[], config?: IConfig, logger?: ILogger | IStructuredLogger,
+                                                  options?: IHealthCheckOptions, cache: HealthCheckCache = new HealthCheckCache(),
+                                                  overrides?: IOverrides, histories?: IDependencyReadinessHistory[]): Promise<IDependenciesHealth> => {
+    const graph = hasDependencyGraph(dependencies)
+    const configuration = resolveConfiguration(config)
+    const structuredLogger = toStructuredLogger(logger)
+    const dependenciesHealth:IDependencyHealth[] = []
+    const promises: Promise<IHealthCheckResult>[] = []
+    const fresh = options?.fresh === true
+    let allDependenciesHealthy = true
+    let allCriticalDependenciesHealthy = true
+
+    for (const dependency of dependencies) {
+        const ttlInMilliseconds = getHealthCacheTtlInMilliseconds(configuration, dependency)
+        promises.push(cache.get(dependency, ttlInMilliseconds, fresh, () => checkDependencyHealth(dependency, configuration, structuredLogger)))
+    }
+
+    const promiseResults = await Promise.allSettled(promises)
+    const checkResults = new Map<string, boolean>()
+    const healthCheckResults = new Map<string, IHealthCheckResult>()
+    const timestamp = new Date()
+
+    dependencies.forEach((dependency, i) => {
+        const promiseResult = promiseResults[i]
+        const healthCheckResult:IHealthCheckResult = promiseResult.status === 'fulfilled'
+            ? promiseResult.value
+            : { healthy: false, latencyInMilliseconds: 0, error: toDependencyCheckError(promiseResult.reason), checkedAt: timestamp, consecutiveFailures: 1 }
+
+        // a flapping dependency is held unhealthy until stable, as it is held not ready
+        const flapping = histories?.find(x => x.name === dependency.name)?.flapping === true
+        const override = overrides?.dependencies[dependency.name]
+        checkResults.set(dependency.name, override ? override.state === 'ready' : healthCheckResult.healthy && !flapping)
+        healthCheckResults.set(dependency.name, healthCheckResult)
+    })
+
+    const getBlockedBy = createBlockedByResolver(dependencies, checkResults)
+
+    for (const dependency of dependencies) {
+        const blockedBy = getBlockedBy(dependency.name)
+        const override = overrides?.dependencies[dependency.name]
+        const healthy = override ? override.state === 'ready' : checkResults.get(dependency.name) && blockedBy.length === 0
+        const healthCheckResult = healthCheckResults.get(dependency.name)
+        const dependencyHealth:IDependencyHealth = {
+            name: dependency.name,
+            data: redactData(configuration, dependency),
+            healthy,
+            critical: dependency.critical,
+            lastCheckedAt: healthCheckResult.checkedAt,
+            ageInMilliseconds: Math.max(timestamp.getTime() - healthCheckResult.checkedAt.getTime(), 0),
+            latencyInMilliseconds: healthCheckResult.latencyInMilliseconds,
+            lastSuccessAt: healthCheckResult.lastSuccessAt,
+            lastFailureAt: healthCheckResult.lastFailureAt,
+            consecutiveFailures: healthCheckResult.consecutiveFailures
+        }
+
+        if (healthCheckResult.error)
+            dependencyHealth.error = healthCheckResult.error
+
+        if (healthCheckResult.details)
+            dependencyHealth.details = healthCheckResult.details
+
+        if (override)
+            dependencyHealth.override = override
+
+        const circuitBreaker = getCircuitBreaker(dependency, getCircuitBreakerPolicy(configuration, dependency))
+
+        if (circuitBreaker)
+            dependencyHealth.circuitBreaker = circuitBreaker.getStatus()
+
+        const history = histories?.find(x => x.name === dependency.name)
+
+        if (history?.flapping)
+            dependencyHealth.flapping = true
+
+        if (history && options?.includeHistory)
+            dependencyHealth.history = history.transitions
+
+        if (graph) {
+            dependencyHealth.dependsOn = getPrerequisites(dependency)
+            dependencyHealth.blockedBy = blockedBy
+        }
+
+        dependenciesHealth.push(dependencyHealth)
+
+        if (!healthy) {
+            allDependenciesHealthy = false
+
+            if (dependency.critical)
+                allCriticalDependenciesHealthy = false
+        }
+    }
+
+    const dependenciesHealthResult:IDependenciesHealth = {
+        allDependenciesHealthy,
+        allCriticalDependenciesHealthy,
+        degraded: allCriticalDependenciesHealthy && !allDependenciesHealthy,
+        timestamp,
+        dependencies: dependenciesHealth
+    }
+
+    if (overrides?.service)
+        dependenciesHealthResult.override = overrides.service
+
+    if (graph)
+        dependenciesHealthResult.dependencyTree = buildDependencyTree(dependencies)
+
+    return dependenciesHealthResult
+}
+
+const createBlockedByResolver = (dependencies: IDependency[], checkResults: Map<string, boolean>) => {
+    const dependenciesByName = new Map(dependencies.map(x => [x.name, x]))
+    const blockedByCache = new Map<string, string[]>()
+
+    const getBlockedBy = (name: string): string[] => {
+        if (!blockedByCache.has(name)) {
+            // the graph is only validated by controllers, so prerequisites which are not checked and cycles do not block
+            blockedByCache.set(name, [])
+            const blockedBy = getPrerequisites(dependenciesByName.get(name))
+                .filter(prerequisite => checkResults.has(prerequisite))
+                .filter(prerequisite => !checkResults.get(prerequisite) || getBlockedBy(prerequisite).length > 0)
+            blockedByCache.set(name, blockedBy)
+        }
+
+        return blockedByCache.get(name)
+    }
+
+    return getBlockedBy
+}
+
+const checkDependencyHealth = async (dependency: IDependency, config: IConfig, logger?: IStructuredLogger): Promise<IHealthCheckOutcome> => {
+    const healthyFunc = dependency.isHealthy ? dependency.isHealthy : dependency.isReady
+    const timeoutInMilliseconds = getCheckTimeoutInMilliseconds(config, dependency)
+    const backoff = getBackoffPolicy(config, dependency)
+    const circuitBreaker = getCircuitBreaker(dependency, getCircuitBreakerPolicy(config, dependency))
+    const check = () => runCheck<boolean | IDependencyStatus>(healthyFunc, timeoutInMilliseconds)
+    const attempts = Math.max(config.healthCheckAttempts, 1)
+    let outcome:IHealthCheckOutcome = { healthy: false, latencyInMilliseconds: 0 }
+
+    for (let attempt = 1; attempt <= attempts; attempt++) {
+        const startTime = Date.now()
+        let healthy = false
+
+        try {
+            const status = toDependencyStatus(await (circuitBreaker ? circuitBreaker.execute(check, logger) : check()))
+            const durationInMilliseconds = Date.now() - startTime
+            healthy = status.healthy
+            outcome = { healthy, latencyInMilliseconds: durationInMilliseconds, details: status.details }
+
+            if (healthy)
+                logger?.info(`dependency '${dependency.name}' is healthy`, { dependency: dependency.name, critical: dependency.critical, durationInMilliseconds })
+            else
+                logger?.warn(`dependency '${dependency.name}' is not healthy${formatDataSuffix(config, dependency)}`, dependencyLogContext(config, dependency, { durationInMilliseconds }))
+        } catch (err) {
+            const durationInMilliseconds = Date.now() - startTime
+            outcome = { healthy: false, latencyInMilliseconds: durationInMilliseconds, error: toDependencyCheckError(err) }
+
+            if (err instanceof CircuitOpenError)
+                break
+
+            logger?.error(`An error occurred while checking health for dependency '${dependency.name}'${formatDataSuffix(config, dependency)}, ${describeCheckError(err)}`,
+                dependencyLogContext(config, dependency, { durationInMilliseconds, error: err }))
+        }
+
+        config.metrics?.observeCheck(dependency.name, dependency.critical, healthy, Date.now() - startTime)
+
+        if (healthy || attempt === attempts)
+            break
+
+        await sleep(backoff ? getBackoffDelayInMilliseconds(backoff, attempt) : getRetryIntervalInMilliseconds(config, dependency))
+    }
+
+    return outcome
+}
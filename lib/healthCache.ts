@@ -0,0 +1,84 @@
+import { IDependency, IDependencyCheckError } from "./types";
+
+/** The outcome of a single dependency health check */
+export interface IHealthCheckOutcome {
+    /** indicates whether the check passed */
+    healthy: boolean
+    /** how long the check took in milliseconds */
+    latencyInMilliseconds: number
+    /** the error thrown by the check */
+    error?: IDependencyCheckError
+    /** status detail returned by the check */
+    details?: {[key: string]: unknown}
+}
+
+/** The outcome of a dependency health check along with the history of previous checks */
+export interface IHealthCheckResult extends IHealthCheckOutcome {
+    /** when the check completed */
+    checkedAt: Date
+    /** when a check last passed */
+    lastSuccessAt?: Date
+    /** when a check last failed */
+    lastFailureAt?: Date
+    /** number of consecutive failed checks */
+    consecutiveFailures: number
+}
+
+interface IHealthCacheEntry {
+    result?: IHealthCheckResult
+    inFlight?: Promise<IHealthCheckResult>
+}
+
+/**
+ * Caches dependency health check results and coalesces concurrent checks of the same dependency so callers share a
+ * single in-flight check.  The success and failure history of each dependency is tracked across checks
+ */
+export class HealthCheckCache {
+    private readonly entries = new WeakMap<IDependency, IHealthCacheEntry>()
+
+    /**
+     * Returns the cached result of a dependency if younger than the ttl, otherwise the result of an in-flight check or
+     * of a new check
+     * @param dependency - {IDependency}
+     * @param ttlInMilliseconds - maximum age of a cached result, 0 disables caching
+     * @param fresh - indicates whether a cached result should be ignored
+     * @param check - performs the health check
+     */
+    async get(dependency: IDependency, ttlInMilliseconds: number, fresh: boolean, check: () => Promise<IHealthCheckOutcome>): Promise<IHealthCheckResult> {
+        let entry = this.entries.get(dependency)
+
+        if (!entry) {
+            entry = {}
+            this.entries.set(dependency, entry)
+        }
+
+        if (entry.inFlight)
+            return entry.inFlight
+
+        if (!fresh && entry.result && Date.now() - entry.result.checkedAt.getTime() < ttlInMilliseconds)
+            return entry.result
+
+        entry.inFlight = check()
+            .then(outcome => {
+                entry.result = withHistory(outcome, entry.result)
+                return entry.result
+            })
+            .finally(() => {
+                entry.inFlight = undefined
+            })
+
+        return entry.inFlight
+    }
+}
+
+const withHistory = (outcome: IHealthCheckOutcome, previous?: IHealthCheckResult): IHealthCheckResult => {
+    const checkedAt = new Date()
+
+    return {
+        ...outcome,
+        checkedAt,
+        lastSuccessAt: outcome.healthy ? checkedAt : previous?.lastSuccessAt,
+        lastFailureAt: outcome.healthy ? previous?.lastFailureAt : checkedAt,
+        consecutiveFailures: outcome.healthy ? 0 : (previous?.consecutiveFailures ?? 0) + 1
+    }
+}
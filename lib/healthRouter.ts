@@ -0,0 +1,92 @@
+import { NextFunction, Request, Response, Router } from "express";
+import { loadExpress } from "./express";
+import { getHealthFormatter, HealthFormat } from "./formatters";
+import { IDependenciesHealth, IHealthCheckOptions } from "./types";
+
+/** Health router options interface */
+export interface IHealthRouterOptions {
+    /**
+     * the path the router will be mounted at, used to whitelist the endpoints.  If not defined the endpoints are
+     * whitelisted under any path, so they are not gated wherever the router is mounted
+     */
+    mountPath?: string
+    /** path of the liveness endpoint, default '/live' */
+    livenessPath?: string
+    /** path of the readiness endpoint, default '/ready' */
+    readinessPath?: string
+    /** path of the detailed health endpoint, default '/health' */
+    healthPath?: string
+    /** response format of the readiness and health endpoints, default 'default' */
+    format?: HealthFormat
+}
+
+/** Source of readiness and health information for a health router */
+export interface IHealthProvider {
+    /** indicates whether all critical dependencies are ready */
+    isReady: () => boolean
+    /** checks the health of all dependencies */
+    checkHealth: (options?: IHealthCheckOptions) => Promise<IDependenciesHealth>
+}
+
+export const DefaultHealthRouterOptions:IHealthRouterOptions = {
+    livenessPath: '/live',
+    readinessPath: '/ready',
+    healthPath: '/health',
+    format: 'default'
+}
+
+/**
+ * Returns the full paths of the endpoints exposed by a health router.  If no 'mountPath' is defined the endpoints are
+ * matched under any path, as the router may be mounted under a prefix and liveness must never be gated
+ * @param options - Optional {IHealthRouterOptions}
+ */
+export const getHealthRouterPaths = (options?: IHealthRouterOptions): string[] => {
+    const { mountPath, livenessPath, readinessPath, healthPath } = resolveOptions(options)
+    const prefix = mountPath === undefined || mountPath === null ? '**' : mountPath.replace(/\/$/, '')
+
+    return [livenessPath, readinessPath, healthPath].map(path => `${prefix}${path}`)
+}
+
+/**
+ * Builds an express router exposing liveness, readiness and health endpoints
+ * @param provider - {IHealthProvider}
+ * @param options - Optional {IHealthRouterOptions}
+ */
+export const buildHealthRouter = (provider: IHealthProvider, options?: IHealthRouterOptions): Router => {
+    const { livenessPath, readinessPath, healthPath, format } = resolveOptions(options)
+    const formatter = getHealthFormatter(format)
+    const express = loadExpress()
+    const router = express.Router()
+
+    router.get(livenessPath, (req: Request, res: Response) => {
+        res.sendStatus(200)
+    })
+
+    router.get(readinessPath, (req: Request, res: Response) => {
+        const ready = provider.isReady()
+        res.status(ready ? 200 : 503).type(formatter.contentType).send(JSON.stringify(formatter.formatReadiness(ready)))
+    })
+
+    router.get(healthPath, async (req: Request, res: Response, next: NextFunction) => {
+        try {
+            const health = await provider.checkHealth({ fresh: req.query.fresh === 'true', includeHistory: req.query.history === 'true' })
+            res.status(health.allCriticalDependenciesHealthy ? 200 : 503).type(formatter.contentType).send(JSON.stringify(formatter.formatHealth(health)))
+        } catch (err) {
+            next(err)
+        }
+    })
+
+    return router
+}
+
+const resolveOptions = (options?: IHealthRouterOptions): IHealthRouterOptions => {
+    const resolvedOptions:IHealthRouterOptions = { ...(options ?? {}) }
+
+    Object.keys(DefaultHealthRouterOptions).forEach(key => {
+        if (resolvedOptions[key] === null || resolvedOptions[key] === undefined) {
+            resolvedOptions[key] = DefaultHealthRouterOptions[key]
+        }
+    })
+
+    return resolvedOptions
+}
@@ -0,0 +1,42 @@
+import { IReadinessTransition } from "./types";
+
+/**
+ * Fixed size ring buffer of the readiness transitions of a dependency.  Once full the oldest transition is overwritten
+ */
+export class ReadinessHistory {
+    private readonly transitions:IReadinessTransition[] = []
+    private start = 0
+
+    /**
+     * @param capacity - the maximum number of transitions kept, 0 keeps none
+     */
+    constructor(private readonly capacity: number) {
+    }
+
+    /**
+     * Records a transition, overwriting the oldest transition if the buffer is full
+     * @param transition - {IReadinessTransition}
+     */
+    record(transition: IReadinessTransition): void {
+        if (this.capacity <= 0)
+            return
+
+        if (this.transitions.length < this.capacity) {
+            this.transitions.push(transition)
+            return
+        }
+
+        this.transitions[this.start] = transition
+        this.start = (this.start + 1) % this.capacity
+    }
+
+    /**
+     * Returns the transitions, oldest first
+     * @param since - Optional time from which transitions are returned, by default all are
+     */
+    getTransitions(since?: Date): IReadinessTransition[] {
+        const transitions = [...this.transitions.slice(this.start), ...this.transitions.slice(0, this.start)]
+
+        return since ? transitions.filter(x => x.timestamp.getTime() >= since.getTime()) : transitions
+    }
+}
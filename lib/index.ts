@@ -1,303 +1,263 @@
-import { NextFunction, Request, Response } from "express";
-
-/** Logger interface */
-export interface ILogger {
-    /** Logs out a message */
-    log: (message: string) => void
-}
-
-/** Configuration interface for the middleware */
-export interface IConfig {
-    /** interval in milliseconds in which to check if a dependency is ready, default is 2000 */
-    retryIntervalInMilliseconds?: number
-    /** maximum time in milliseconds to wait for all dependencies to be ready.  default 30000 */
-    maximumWaitTimeForServiceReadinessInMilliseconds?: number
-    /** paths to still route traffic to even if dependencies are not yet ready, default empty array */
-    whitelistedPaths?: string[]
-    /** indicates whether dependency information should be logged out if dependencies fail to become ready */
-    logOutDependenciesDataOnFailure?: boolean
-}
-
-const DefaultConfig:IConfig = {
-    retryIntervalInMilliseconds: 2000,
-    maximumWaitTimeForServiceReadinessInMilliseconds: 30000,
-    whitelistedPaths: [],
-    logOutDependenciesDataOnFailure: false
-}
-
-/** Dependency interface */
-export interface IDependency {
-    /** the name of the dependency */
-    name: string
-    /** informational data about the dependency */
-    data: {[key: string]: string}
-    /** indicates whether the dependency is ready */
-    isReady: () => Promise<boolean>
-    /** indicates whether the dependency is healthy */
-    isHealthy?: () => Promise<boolean>
-    /** indicates whether the dependency is critical */
-    critical: boolean
-    /** interval in milliseconds in which to check if a dependency is ready, default is 2000 */
-    retryIntervalInMilliseconds?: number
-}
-
-/** Dependencies Health interface */
-export interface IDependenciesHealth {
-    /** indicates whether all dependencies are healthy */
-    allDependenciesHealthy: boolean
-    /** indicates whether all critical dependencies are healthy */
-    allCriticalDependenciesHealthy: boolean
-    /** health information about all dependencies */
-    dependencies: IDependencyHealth[]
-}
-
-/** Dependency health interface */
-export interface IDependencyHealth {
-    /** the name of the dependency */
-    name: string
-    /** informational data about the dependency */
-    data: {[key: string]: string}
-    /** indicates whether the dependency is healthy using 'isHealthy' if defined otherwise 'isReady' */
-    healthy: boolean
-    /** indicates whether the dependency is critical */
-    critical: boolean
-}
-
-/** Readiness middleware */
-export interface ReadinessMiddleware {
-    /** middleware function */
-    (req: Request, res: Response, next: NextFunction): void
-}
-
-interface IDependencyStateItem {
-    name: string
-    data: {[key: string]: string}
-    ready: boolean
-    isReady: () => Promise<boolean>
-    retryIntervalInMilliseconds: number
-    timeoutId?: NodeJS.Timeout
-}
-
-const dependencyStateItems:Array<IDependencyStateItem> = []
-let informationLogger:ILogger
-let ready:Boolean = false
-let maximumWaitTimeTimeout:NodeJS.Timeout
+import { NextFunction, Request, Response, Router } from "express";
+import * as checkers from "./checkers";
+import { buildAdminRouter, getAdminRouterPaths, IAdminRouterOptions } from "./adminRouter";
+import { buildHealthRouter, getHealthRouterPaths, IHealthRouterOptions } from "./healthRouter";
+import { checkDependenciesHealthWith } from "./health";
+import { HealthCheckCache } from "./healthCache";
+import { ReadinessController, waitForReadiness as waitForReadinessWith } from "./readinessController";
+import {
+    IConfig,
+    IDependenciesHealth,
+    IDependency,
+    IDependencyReadinessHistory,
+    IDrainResult,
+    IHealthCheckOptions,
+    ILogger,
+    IOverride,
+    IOverrides,
+    IReadinessResult,
+    IStructuredLogger,
+    OverrideState,
+    ReadinessMiddleware
+} from "./types";
+
+export * from "./types";
+export { checkers };
+export { createReadinessController, ReadinessController } from "./readinessController";
+export { IHealthRouterOptions } from "./healthRouter";
+export { IAdminRouterOptions } from "./adminRouter";
+export { CheckTimeoutError, CircuitOpenError, DependencyGraphError, ReadinessTimeoutError, StartupTaskError } from "./errors";
+export { createMetrics, IMetricsOptions, ReadinessMetrics } from "./metrics";
+export {
+    ActuatorStatus,
+    HealthFormat,
+    HealthJsonStatus,
+    IActuatorComponent,
+    IActuatorHealth,
+    IHealthFormatter,
+    IHealthJson,
+    IHealthJsonCheck,
+    toActuatorHealth,
+    toHealthJson
+} from "./formatters";
+export {
+    createDependencyGroup,
+    IDependencyGroupDetails,
+    IDependencyGroupMemberHealth,
+    IDependencyGroupOptions,
+    Quorum
+} from "./groups";
+export {
+    createStartupTask,
+    IStartupTaskContext,
+    IStartupTaskOptions,
+    IStartupTaskStatus,
+    StartupTaskState
+} from "./startupTasks";
+export {
+    createPinoLoggerAdapter,
+    createWinstonLoggerAdapter,
+    IPinoLikeLogger,
+    IWinstonLikeLogger
+} from "./logging";
+
+const controllers:Array<ReadinessController> = []
+let defaultController:ReadinessController = undefined
+let informationLogger:ILogger | IStructuredLogger
 let serviceConfiguration:IConfig = undefined
+let middlewareDependencies:IDependency[] = undefined
+const whitelistedRouterPaths:string[] = []
+const healthCheckCache = new HealthCheckCache()
 
 /**
- * Creates the service readiness middleware
+ * Creates the service readiness middleware using a default {ReadinessController} instance
  * @param dependencies - Array of {IDependency} objects
  * @param config - Optional configuration for the middleware.  If not defined the DefaultConfig will be used
  */
 export const createReadinessMiddleware = (dependencies: IDependency[], config?: IConfig): ReadinessMiddleware => {
-    const configuration = config ?? DefaultConfig
+    serviceConfiguration = config
+    middlewareDependencies = dependencies
+    defaultController = new ReadinessController(dependencies, config, informationLogger)
+    defaultController.whitelistPaths(whitelistedRouterPaths)
+    controllers.push(defaultController)
 
-    Object.keys(DefaultConfig).forEach(key => {
-        if (configuration[key] === null || configuration[key] === undefined) {
-            configuration[key] = DefaultConfig[key]
-        }
-    })
-
-    serviceConfiguration = configuration
+    return defaultController.middleware()
+}
 
-    checkServiceReadiness(dependencies, configuration)
-    let pathsToWhitelist:string[] = []
+/**
+ * Waits for critical dependencies to become ready without gating requests, e.g. before starting a worker or running
+ * migrations, using the logger set with setLogger
+ * @param dependencies - Array of {IDependency} objects
+ * @param config - Optional configuration.  If not defined the DefaultConfig will be used, 'onReadinessTimeout' is ignored
+ * @throws {ReadinessTimeoutError} with the state of each critical dependency on timeout
+ */
+export const waitForReadiness = (dependencies: IDependency[], config?: IConfig): Promise<IReadinessResult> =>
+    waitForReadinessWith(dependencies, config, informationLogger)
 
-    if (configuration.whitelistedPaths && configuration.whitelistedPaths.length > 0)
-        pathsToWhitelist = configuration.whitelistedPaths.map(x => x.toLowerCase())
+/**
+ * Creates a middleware which rejects requests while any of the given non-critical dependencies of the most recently
+ * created readiness middleware are not ready
+ * @param names - names of the dependencies the route requires
+ */
+export const requireDependencies = (...names: string[]): ReadinessMiddleware => {
+    let boundController:ReadinessController = defaultController
+    let boundMiddleware:ReadinessMiddleware = defaultController?.requireDependencies(...names)
 
     return (req: Request, res: Response, next: NextFunction):void => {
-        if (!ready) {
-            const path = req.originalUrl.replace(/\?.*$/, '').toLowerCase()
+        if (!defaultController)
+            return next()
 
-            if (pathsToWhitelist.length > 0 && pathsToWhitelist.includes(path))
-                return next()
-
-            informationLogger?.log('Service is not yet ready to handle requests')
-            res.sendStatus(502)
-            return
+        if (boundController !== defaultController) {
+            boundController = defaultController
+            boundMiddleware = defaultController.requireDependencies(...names)
         }
 
-        return next()
+        boundMiddleware(req, res, next)
     }
 }
 
 /**
- * Checks the health of all dependencies
- * @param dependencies - Array of {IDependency} objects
+ * Returns a boolean indicating whether the most recently created middleware is ready but running degraded as a
+ * non-critical dependency required by a route is not ready
  */
-export const checkDependenciesHealth = async (dependencies: IDependency[]): Promise<IDependenciesHealth> => {
-    const dependenciesHealth:IDependencyHealth[] = []
-    const promises: Promise<boolean>[] = []
-    let allDependenciesHealthy = true
-    let allCriticalDependenciesHealthy = true
+export const isDegraded = (): boolean => defaultController?.isDegraded() ?? false
 
-    for (const dependency of dependencies) {
-        promises.push(checkDependencyHealth(dependency))
-    }
-
-    const promiseResults = await Promise.allSettled(promises)
-
-    for (let i = 0; i < dependencies.length; i++) {
-        const dependency = dependencies[i]
-        const promiseResult = promiseResults[i]
-        const healthy = promiseResult.status === 'fulfilled' && promiseResult.value
-        dependenciesHealth.push({
-            name: dependency.name,
-            data: dependency.data,
-            healthy,
-            critical: dependency.critical
-        })
-
-        if (!healthy) {
-            allDependenciesHealthy = false
+/**
+ * Adds a dependency to the most recently created middleware and starts tracking its readiness if it is critical.
+ * Readiness is re-evaluated immediately
+ * @param dependency - {IDependency}
+ * @throws {DependencyGraphError} if a dependency with the same name exists or the dependency declares unknown or
+ * cyclic 'dependsOn' prerequisites
+ * @throws {Error} if readiness is no longer checked, e.g. after 'stopCheckingReadiness'
+ */
+export const addDependency = (dependency: IDependency): void => {
+    if (!defaultController)
+        throw new Error('createReadinessMiddleware must be called before adding a dependency')
 
-            if (dependency.critical)
-                allCriticalDependenciesHealthy = false
-        }
-    }
-    
-    return {
-        allDependenciesHealthy,
-        allCriticalDependenciesHealthy,
-        dependencies: dependenciesHealth
-    }
+    defaultController.addDependency(dependency)
 }
 
 /**
- * Set a logger
- * @param logger - {ILogger}
+ * Removes a dependency from the most recently created middleware and stops tracking its readiness.  Readiness is
+ * re-evaluated immediately
+ * @param name - the name of the dependency
+ * @returns false if the dependency does not exist
+ * @throws {DependencyGraphError} if another dependency depends on the dependency
  */
-export const setLogger = (logger: ILogger): void => {
-    informationLogger = logger
-}
+export const removeDependency = (name: string): boolean => defaultController?.removeDependency(name) ?? false
 
 /**
- * Returns a boolean indicating whether all critical dependencies are ready
+ * Checks the health of all dependencies.  Results are cached for 'healthCacheTtlInMilliseconds' and concurrent calls
+ * share in-flight checks.  If the dependencies passed to 'createReadinessMiddleware' are checked, dependencies added
+ * or removed since are included or excluded
+ * @param dependencies - Array of {IDependency} objects
+ * @param options - Optional {IHealthCheckOptions}
  */
-export const criticalDependenciesReady = (): Boolean => ready
+export const checkDependenciesHealth = async (dependencies: IDependency[], options?: IHealthCheckOptions): Promise<IDependenciesHealth> =>
+    checkDependenciesHealthWith(getLiveDependencies(dependencies), serviceConfiguration, informationLogger, options, healthCheckCache,
+        defaultController?.getOverrides(), defaultController?.getHistory())
 
 /**
- * Removes any NodeJS.Timeout instances created by the middleware
+ * Creates an express router exposing liveness, readiness and health endpoints.  The endpoints are whitelisted by the
+ * readiness middleware
+ * @param dependencies - Array of {IDependency} objects
+ * @param options - Optional {IHealthRouterOptions}
  */
-export const stopCheckingReadiness = (): void => {
-    if (maximumWaitTimeTimeout) {
-        clearTimeout(maximumWaitTimeTimeout)
-    }
-
-    for (const dependencyStateItem of dependencyStateItems) {
-        if (dependencyStateItem.timeoutId)
-            clearTimeout(dependencyStateItem.timeoutId)
-    }
+export const createHealthRouter = (dependencies: IDependency[], options?: IHealthRouterOptions): Router => {
+    const paths = getHealthRouterPaths(options)
+    whitelistedRouterPaths.push(...paths)
+    controllers.forEach(controller => controller.whitelistPaths(paths))
+
+    return buildHealthRouter({
+        isReady: () => criticalDependenciesReady() === true,
+        checkHealth: options => checkDependenciesHealth(dependencies, options)
+    }, options)
 }
 
-const checkDependencyHealth = async (dependency: IDependency): Promise<boolean> => {
-    let healthy = false
-
-    try {
-        const healthyFunc = dependency.isHealthy ? dependency.isHealthy : dependency.isReady
-        healthy = await healthyFunc()
-        informationLogger?.log(`dependency '${dependency.name}' is ${healthy ? 'healthy' : 'not healthy'}${!healthy && serviceConfiguration?.logOutDependenciesDataOnFailure ? ', data: ' + JSON.stringify(dependency.data) : ''}`)
-    } catch (err) {
-        // @ts-ignore
-        informationLogger?.log(`An error occurred while checking health for dependency '${dependency.name}'${serviceConfiguration?.logOutDependenciesDataOnFailure ? ', data: ' + JSON.stringify(dependency.data) : ''}, error: ${err.message || err}`)
-    }
-
-    return healthy
-}
-
-const maximumWaitTimeExceeded = (config: IConfig) => {
-    return () => {
-        stopCheckingReadiness()
-        const items = []
-        dependencyStateItems.forEach(item => {
-            items.push({
-                name: item.name,
-                data: item.data,
-                ready: item.ready
-            })
-        })
-
-        if (informationLogger) {
-            const suffix  = config.logOutDependenciesDataOnFailure === true ? ` Critical dependencies: ${JSON.stringify(items)}` : ''
-            informationLogger?.log(`All critical dependencies did not become healthy.${suffix}`)
-        }
+/**
+ * Overrides the readiness of the service or of a dependency of the most recently created middleware regardless of
+ * dependency checks.  Replaces any existing override of the service or dependency
+ * @param state - the overridden readiness state
+ * @param reason - why the readiness is overridden
+ * @param ttlInMilliseconds - Optional time after which the override is cleared, by default it does not expire
+ * @param dependency - Optional name of the dependency to override, by default the service readiness is overridden
+ * @throws {DependencyGraphError} if the dependency is unknown
+ */
+export const setOverride = (state: OverrideState, reason: string, ttlInMilliseconds?: number, dependency?: string): IOverride => {
+    if (!defaultController)
+        throw new Error('createReadinessMiddleware must be called before overriding readiness')
 
-        // @ts-ignore
-        if (global.ExpressServiceReadinessTests === undefined)
-            process.exit(1)
-    }
+    return defaultController.setOverride(state, reason, ttlInMilliseconds, dependency)
 }
 
-const checkServiceReadiness = (dependencies: IDependency[], config: IConfig) => {
-    const criticalDependencies = getCriticalDependencies(dependencies)
-
-    if (criticalDependencies.length === 0) {
-        ready = true
-        return
-    }
+/**
+ * Clears the readiness override of the service or of a dependency of the most recently created middleware
+ * @param dependency - Optional name of the dependency, by default the service override is cleared
+ */
+export const clearOverride = (dependency?: string): void => defaultController?.clearOverride(dependency)
 
-    const maximumWaitTimeForServiceReadinessInMilliseconds = config.maximumWaitTimeForServiceReadinessInMilliseconds ?? DefaultConfig.maximumWaitTimeForServiceReadinessInMilliseconds
-    maximumWaitTimeTimeout = setTimeout(maximumWaitTimeExceeded(config), maximumWaitTimeForServiceReadinessInMilliseconds)
+/**
+ * Returns the active readiness overrides of the most recently created middleware
+ */
+export const getOverrides = (): IOverrides => defaultController?.getOverrides() ?? { dependencies: {} }
 
-    criticalDependencies.forEach(criticalDependencies => {
-        const { name, data, isReady } = criticalDependencies
-        let retryIntervalInMilliseconds = getRetryIntervalInMilliseconds(config, criticalDependencies)
+/**
+ * Returns the readiness history of the dependencies tracked by the most recently created middleware
+ * @param name - Optional name of a dependency, by default the history of all tracked dependencies is returned
+ * @param since - Optional time from which transitions are returned, by default all kept transitions are
+ */
+export const getReadinessHistory = (name?: string, since?: Date): IDependencyReadinessHistory[] =>
+    defaultController?.getHistory(name, since) ?? []
 
-        const dependencyStateItem:IDependencyStateItem = {
-            name,
-            data,
-            ready: false,
-            isReady,
-            retryIntervalInMilliseconds
-        }
+/**
+ * Creates an express router to view and change readiness overrides, protected by the 'authorize' hook.  The endpoints
+ * are whitelisted by the readiness middleware
+ * @param options - {IAdminRouterOptions}
+ */
+export const createAdminRouter = (options: IAdminRouterOptions): Router => {
+    const router = buildAdminRouter({ setOverride, clearOverride, getOverrides }, options)
+    const paths = getAdminRouterPaths(options)
+    whitelistedRouterPaths.push(...paths)
+    controllers.forEach(controller => controller.whitelistPaths(paths))
 
-        dependencyStateItems.push(dependencyStateItem)
-        
-        // noinspection JSIgnoredPromiseFromCall
-        checkDependencyReadiness(dependencyStateItem)
-    })
+    return router
 }
 
-const checkCriticalReadiness = () => {
-    for (const dependencyStateItem of dependencyStateItems) {
-        if (!dependencyStateItem.ready)
-            return
-    }
+const getLiveDependencies = (dependencies: IDependency[]): IDependency[] =>
+    defaultController && dependencies === middlewareDependencies ? defaultController.getDependencies() : dependencies
 
-    clearTimeout(maximumWaitTimeTimeout)
-    informationLogger?.log('All critical dependencies are now ready')
-    ready = true
+/**
+ * Set a logger
+ * @param logger - {ILogger} or {IStructuredLogger}
+ */
+export const setLogger = (logger: ILogger | IStructuredLogger): void => {
+    informationLogger = logger
+    controllers.forEach(controller => controller.setLogger(logger))
 }
 
-const checkDependencyReadiness = async (dependencyStateItem: IDependencyStateItem) => {
-    try {
-        const ready = await dependencyStateItem.isReady()
-
-        if (ready) {
-            dependencyStateItem.ready = true
-            informationLogger?.log(`critical dependency '${dependencyStateItem.name}' is ready`)
-            checkCriticalReadiness()
-            return
-        }
+/**
+ * Returns a boolean indicating whether all critical dependencies of the most recently created middleware are ready
+ */
+export const criticalDependenciesReady = (): Boolean => defaultController?.isReady() ?? false
 
-        informationLogger?.log(`critical dependency '${dependencyStateItem.name}' is not ready yet${serviceConfiguration.logOutDependenciesDataOnFailure ? ', data: ' + JSON.stringify(dependencyStateItem.data) : ''}`)
-    } catch (err) {
-        // @ts-ignore
-        informationLogger?.log(`An error occurred while checking health for critical dependency '${dependencyStateItem.name}'${serviceConfiguration.logOutDependenciesDataOnFailure ? ', data: ' + JSON.stringify(dependencyStateItem.data) : ''}, error: ${err.message || err}`)
-    }
+/**
+ * Marks the service not ready and stops checking readiness using 'stopCheckingReadiness' so the service can shut down
+ * gracefully.  Whitelisted paths continue to be routed to while other requests are rejected
+ * @param timeoutInMilliseconds - Optional maximum time to wait for in-flight requests, defaults to
+ * 'drainTimeoutInMilliseconds'
+ * @returns a promise which resolves once requests passed on by the most recently created middleware have completed or
+ * the timeout expires
+ */
+export const beginDraining = (timeoutInMilliseconds?: number): Promise<IDrainResult> => {
+    const drained = defaultController?.beginDraining(timeoutInMilliseconds) ?? Promise.resolve({ completed: true, inFlightRequests: 0 })
+    stopCheckingReadiness()
 
-    const checkHealthAgain = () => checkDependencyReadiness(dependencyStateItem)
-    dependencyStateItem.timeoutId = setTimeout(checkHealthAgain, dependencyStateItem.retryIntervalInMilliseconds)
+    return drained
 }
 
-const getCriticalDependencies = (dependencies: IDependency[]): IDependency[] => dependencies.filter(x => x.critical)
-
-const getRetryIntervalInMilliseconds = (config: IConfig, criticalDependency: IDependency): number => {
-    let retryIntervalInMilliseconds = config.retryIntervalInMilliseconds ?? DefaultConfig.retryIntervalInMilliseconds
-
-    if (criticalDependency.retryIntervalInMilliseconds)
-        retryIntervalInMilliseconds = criticalDependency.retryIntervalInMilliseconds
-
-    return retryIntervalInMilliseconds as number
-}
\ No newline at end of file
+/**
+ * Removes any NodeJS.Timeout instances created by the middleware
+ */
+export const stopCheckingReadiness = (): void => {
+    controllers.splice(0).forEach(controller => controller.stop())
+}
@@ -0,0 +1,101 @@
+import { IRedactableDependency, redactData } from "./redaction";
+import { IConfig, ILogContext, ILogger, IStructuredLogger } from "./types";
+
+type LogLevel = 'debug' | 'info' | 'warn' | 'error'
+
+const LogLevels:LogLevel[] = ['debug', 'info', 'warn', 'error']
+
+/** Pino style logger interface, merging object first */
+export interface IPinoLikeLogger {
+    debug: (obj: object, message?: string) => void
+    info: (obj: object, message?: string) => void
+    warn: (obj: object, message?: string) => void
+    error: (obj: object, message?: string) => void
+}
+
+/** Winston style logger interface, meta object last */
+export interface IWinstonLikeLogger {
+    debug: (message: string, meta?: object) => void
+    info: (message: string, meta?: object) => void
+    warn: (message: string, meta?: object) => void
+    error: (message: string, meta?: object) => void
+}
+
+/**
+ * Returns a structured logger for the given logger.  Loggers with 'debug', 'info', 'warn' and 'error' functions are
+ * used as is, otherwise every level falls back to the 'log' function
+ * @param logger - Optional {ILogger} or {IStructuredLogger}
+ */
+export const toStructuredLogger = (logger?: ILogger | IStructuredLogger): IStructuredLogger | undefined => {
+    if (!logger)
+        return undefined
+
+    if (isStructuredLogger(logger))
+        return logger
+
+    const log = (message: string) => (logger as ILogger).log(message)
+
+    return {
+        debug: log,
+        info: log,
+        warn: log,
+        error: log
+    }
+}
+
+/**
+ * Adapts a pino style logger to the {IStructuredLogger} interface.  Errors are logged under the 'err' key
+ * @param logger - {IPinoLikeLogger}
+ */
+export const createPinoLoggerAdapter = (logger: IPinoLikeLogger): IStructuredLogger => {
+    const adapt = (level: LogLevel) => (message: string, context?: ILogContext) => {
+        const { error, ...rest } = context ?? {}
+        logger[level](error ? { ...rest, err: error } : rest, message)
+    }
+
+    return {
+        debug: adapt('debug'),
+        info: adapt('info'),
+        warn: adapt('warn'),
+        error: adapt('error')
+    }
+}
+
+/**
+ * Adapts a winston style logger to the {IStructuredLogger} interface
+ * @param logger - {IWinstonLikeLogger}
+ */
+export const createWinstonLoggerAdapter = (logger: IWinstonLikeLogger): IStructuredLogger => {
+    const adapt = (level: LogLevel) => (message: string, context?: ILogContext) => logger[level](message, context ?? {})
+
+    return {
+        debug: adapt('debug'),
+        info: adapt('info'),
+        warn: adapt('warn'),
+        error: adapt('error')
+    }
+}
+
+/**
+ * Returns the log message suffix describing the redacted dependency data if 'logOutDependenciesDataOnFailure' is enabled
+ * @param config - {IConfig}
+ * @param dependency - {IRedactableDependency}
+ */
+export const formatDataSuffix = (config: IConfig, dependency: IRedactableDependency): string =>
+    config?.logOutDependenciesDataOnFailure ? ', data: ' + JSON.stringify(redactData(config, dependency)) : ''
+
+/**
+ * Returns the log context for a dependency, redacted data is only included if 'logOutDependenciesDataOnFailure' is enabled
+ * @param config - {IConfig}
+ * @param dependency - the name, data, internal data keys and critical flag of the dependency
+ * @param context - Optional additional {ILogContext}
+ */
+export const dependencyLogContext = (config: IConfig, dependency: IRedactableDependency & { critical: boolean }, context?: ILogContext): ILogContext => ({
+    dependency: dependency.name,
+    critical: dependency.critical,
+    ...(config?.logOutDependenciesDataOnFailure ? { data: redactData(config, dependency) } : {}),
+    ...(context ?? {})
+})
+
+const isStructuredLogger = (logger: ILogger | IStructuredLogger): logger is IStructuredLogger =>
+    LogLevels.every(level => typeof logger[level] === 'function')
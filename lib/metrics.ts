@@ -0,0 +1,152 @@
+import { Request, RequestHandler, Response } from "express";
+import { IMetricsRecorder } from "./types";
+
+/** Metrics options interface */
+export interface IMetricsOptions {
+    /** prefix of all metric names, default 'service_readiness_' */
+    prefix?: string
+    /** upper bounds in seconds of the check duration histogram buckets */
+    buckets?: number[]
+}
+
+export const DefaultMetricsOptions:IMetricsOptions = {
+    prefix: 'service_readiness_',
+    buckets: [0.005, 0.01, 0.025, 0.05, 0.1, 0.25, 0.5, 1, 2.5, 5, 10]
+}
+
+interface IDependencyMetrics {
+    name: string
+    critical: boolean
+    healthy?: boolean
+    checks: number
+    failures: number
+    bucketCounts: number[]
+    durationSum: number
+}
+
+/**
+ * Collects readiness and dependency check metrics and renders them in the Prometheus text exposition format
+ */
+export class ReadinessMetrics implements IMetricsRecorder {
+    private readonly prefix: string
+    private readonly buckets: number[]
+    private readonly dependencyMetrics = new Map<string, IDependencyMetrics>()
+    private serviceReady:boolean = false
+
+    /**
+     * Creates a metrics collector
+     * @param options - Optional {IMetricsOptions}
+     */
+    constructor(options?: IMetricsOptions) {
+        this.prefix = options?.prefix ?? DefaultMetricsOptions.prefix
+        this.buckets = [...(options?.buckets ?? DefaultMetricsOptions.buckets)].sort((a, b) => a - b)
+    }
+
+    /**
+     * Records whether the service is ready
+     * @param ready - indicates whether all critical dependencies are ready
+     */
+    setServiceReady(ready: boolean): void {
+        this.serviceReady = ready
+    }
+
+    /**
+     * Records the outcome of a dependency readiness or health check
+     * @param name - the name of the dependency
+     * @param critical - indicates whether the dependency is critical
+     * @param healthy - indicates whether the check passed
+     * @param durationInMilliseconds - how long the check took
+     */
+    observeCheck(name: string, critical: boolean, healthy: boolean, durationInMilliseconds: number): void {
+        const key = `${name}|${critical}`
+        let metrics = this.dependencyMetrics.get(key)
+
+        if (!metrics) {
+            metrics = {
+                name,
+                critical,
+                checks: 0,
+                failures: 0,
+                bucketCounts: this.buckets.map(() => 0),
+                durationSum: 0
+            }
+            this.dependencyMetrics.set(key, metrics)
+        }
+
+        const durationInSeconds = durationInMilliseconds / 1000
+        metrics.healthy = healthy
+        metrics.checks++
+        metrics.durationSum += durationInSeconds
+
+        if (!healthy)
+            metrics.failures++
+
+        this.buckets.forEach((bucket, i) => {
+            if (durationInSeconds <= bucket)
+                metrics.bucketCounts[i]++
+        })
+    }
+
+    /**
+     * Renders all metrics in the Prometheus text exposition format
+     */
+    render(): string {
+        const lines:string[] = []
+        const all = [...this.dependencyMetrics.values()]
+
+        lines.push(`# HELP ${this.prefix}ready Whether all critical dependencies are ready (1) or not (0)`)
+        lines.push(`# TYPE ${this.prefix}ready gauge`)
+        lines.push(`${this.prefix}ready ${this.serviceReady ? 1 : 0}`)
+
+        lines.push(`# HELP ${this.prefix}dependency_healthy Whether the last check of a dependency passed (1) or not (0)`)
+        lines.push(`# TYPE ${this.prefix}dependency_healthy gauge`)
+        all.forEach(x => lines.push(`${this.prefix}dependency_healthy${formatLabels(x)} ${x.healthy ? 1 : 0}`))
+
+        lines.push(`# HELP ${this.prefix}dependency_checks_total Total number of dependency checks`)
+        lines.push(`# TYPE ${this.prefix}dependency_checks_total counter`)
+        all.forEach(x => lines.push(`${this.prefix}dependency_checks_total${formatLabels(x)} ${x.checks}`))
+
+        lines.push(`# HELP ${this.prefix}dependency_check_failures_total Total number of failed dependency checks`)
+        lines.push(`# TYPE ${this.prefix}dependency_check_failures_total counter`)
+        all.forEach(x => lines.push(`${this.prefix}dependency_check_failures_total${formatLabels(x)} ${x.failures}`))
+
+        lines.push(`# HELP ${this.prefix}dependency_check_duration_seconds Duration of dependency checks in seconds`)
+        lines.push(`# TYPE ${this.prefix}dependency_check_duration_seconds histogram`)
+        all.forEach(x => {
+            this.buckets.forEach((bucket, i) => {
+                lines.push(`${this.prefix}dependency_check_duration_seconds_bucket${formatLabels(x, { le: String(bucket) })} ${x.bucketCounts[i]}`)
+            })
+            lines.push(`${this.prefix}dependency_check_duration_seconds_bucket${formatLabels(x, { le: '+Inf' })} ${x.checks}`)
+            lines.push(`${this.prefix}dependency_check_duration_seconds_sum${formatLabels(x)} ${x.durationSum}`)
+            lines.push(`${this.prefix}dependency_check_duration_seconds_count${formatLabels(x)} ${x.checks}`)
+        })
+
+        return `${lines.join('\n')}\n`
+    }
+
+    /**
+     * Returns an express handler which responds with the rendered metrics
+     */
+    handler(): RequestHandler {
+        return (req: Request, res: Response) => {
+            res.set('Content-Type', 'text/plain; version=0.0.4; charset=utf-8')
+            res.send(this.render())
+        }
+    }
+}
+
+/**
+ * Creates a metrics collector
+ * @param options - Optional {IMetricsOptions}
+ */
+export const createMetrics = (options?: IMetricsOptions): ReadinessMetrics => new ReadinessMetrics(options)
+
+const formatLabels = (metrics: IDependencyMetrics, additionalLabels: {[key: string]: string} = {}): string => {
+    const labels = { name: metrics.name, critical: String(metrics.critical), ...additionalLabels }
+    const formatted = Object.keys(labels).map(key => `${key}="${escapeLabelValue(labels[key])}"`)
+
+    return `{${formatted.join(',')}}`
+}
+
+const escapeLabelValue = (value: string): string =>
+    value.replace(/\\/g, '\\\\').replace(/\n/g, '\\n').replace(/"/g, '\\"')
@@ -0,0 +1,79 @@
+import { Request, Response } from "express";
+import { STATUS_CODES } from "http";
+import { IConfig, INotReadyDetails, INotReadyResponse } from "./types";
+
+/**
+ * Sends the response for a request rejected because the service is not ready
+ * @param req - the request
+ * @param res - the response
+ * @param config - {IConfig}
+ * @param details - {INotReadyDetails}
+ */
+export const sendNotReadyResponse = (req: Request, res: Response, config: IConfig, details: INotReadyDetails): void => {
+    const renderer = config.notReadyResponse
+
+    if (typeof renderer === 'function') {
+        renderer(req, res, details)
+        return
+    }
+
+    if (details.retryAfterInSeconds !== undefined)
+        res.set('Retry-After', String(details.retryAfterInSeconds))
+
+    if (renderer !== 'negotiate') {
+        res.sendStatus(details.statusCode)
+        return
+    }
+
+    if (acceptsJson(req.headers?.accept)) {
+        res.status(details.statusCode).json(getJsonBody(details))
+        return
+    }
+
+    res.status(details.statusCode).type('text/plain').send(getTextBody(details))
+}
+
+/**
+ * Renders the response for a request rejected by a gate which is not express middleware.  A custom 'notReadyResponse'
+ * function only applies to express requests, so the response is negotiated if one is configured
+ * @param accept - the Accept header of the request
+ * @param config - {IConfig}
+ * @param details - {INotReadyDetails}
+ */
+export const renderNotReadyResponse = (accept: string | undefined, config: IConfig, details: INotReadyDetails): INotReadyResponse => {
+    const headers:{[name: string]: string} = {}
+
+    if (details.retryAfterInSeconds !== undefined)
+        headers['Retry-After'] = String(details.retryAfterInSeconds)
+
+    if (config.notReadyResponse === 'status' || config.notReadyResponse === undefined) {
+        headers['Content-Type'] = 'text/plain; charset=utf-8'
+        return { statusCode: details.statusCode, headers, body: STATUS_CODES[details.statusCode] ?? String(details.statusCode) }
+    }
+
+    if (acceptsJson(accept)) {
+        headers['Content-Type'] = 'application/json; charset=utf-8'
+        return { statusCode: details.statusCode, headers, body: JSON.stringify(getJsonBody(details)) }
+    }
+
+    headers['Content-Type'] = 'text/plain; charset=utf-8'
+    return { statusCode: details.statusCode, headers, body: getTextBody(details) }
+}
+
+/**
+ * Returns the Retry-After value in seconds, either configured or derived from the retry interval
+ * @param config - {IConfig}
+ */
+export const getRetryAfterInSeconds = (config: IConfig): number =>
+    config.retryAfterInSeconds ?? Math.max(Math.ceil(config.retryIntervalInMilliseconds / 1000), 1)
+
+const getJsonBody = (details: INotReadyDetails): object => details.draining
+    ? { ready: false, draining: true }
+    : { ready: false, pendingDependencies: details.pendingDependencies }
+
+const getTextBody = (details: INotReadyDetails): string => details.draining
+    ? 'Service is draining'
+    : `Service is not ready, pending dependencies: ${details.pendingDependencies.join(', ')}`
+
+const acceptsJson = (accept: string = ''): boolean =>
+    /\bjson\b/i.test(accept) || (accept.includes('*/*') && !/\btext\/plain\b/i.test(accept))
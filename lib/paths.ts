@@ -0,0 +1,80 @@
+import { IncomingMessage } from "http";
+import { IPathRule, PathMatcher } from "./types";
+
+/** A compiled path matcher */
+export type CompiledPathMatcher = (req: IncomingMessage) => boolean
+
+/**
+ * Compiles path matchers once so requests can be matched without re-parsing patterns.  Strings are matched case
+ * insensitively against the request path and may contain '*' (any characters within a segment), '**' (any characters
+ * across segments) and ':param' (a single segment) wildcards.  A ':' which does not start a segment is matched literally
+ * @param matchers - Array of {PathMatcher}
+ */
+export const compilePathMatchers = (matchers: PathMatcher[]): CompiledPathMatcher[] => matchers.map(compilePathMatcher)
+
+/**
+ * Returns true if any of the compiled matchers match the request
+ * @param matchers - Array of {CompiledPathMatcher}
+ * @param req - the request
+ */
+export const matchesAny = (matchers: CompiledPathMatcher[], req: IncomingMessage): boolean => matchers.some(matcher => matcher(req))
+
+/**
+ * Returns the request path without the query string, using 'url' for requests which are not express requests
+ * @param req - the request
+ */
+export const getRequestPath = (req: IncomingMessage & { originalUrl?: string }): string => (req.originalUrl ?? req.url ?? '').replace(/\?.*$/, '')
+
+const compilePathMatcher = (matcher: PathMatcher): CompiledPathMatcher => {
+    if (typeof matcher === 'function')
+        return matcher
+
+    if (typeof matcher === 'string' || matcher instanceof RegExp)
+        return compilePath(matcher)
+
+    return compileRule(matcher)
+}
+
+const compileRule = (rule: IPathRule): CompiledPathMatcher => {
+    const pathMatcher = rule.path !== undefined ? compilePath(rule.path) : () => true
+    const methods = rule.methods?.map(x => x.toUpperCase())
+
+    return (req: IncomingMessage) => (!methods || methods.includes((req.method ?? '').toUpperCase())) && pathMatcher(req)
+}
+
+const compilePath = (path: string | RegExp): CompiledPathMatcher => {
+    if (path instanceof RegExp)
+        return (req: IncomingMessage) => {
+            path.lastIndex = 0
+            return path.test(getRequestPath(req))
+        }
+
+    const lowerCasedPath = path.toLowerCase()
+
+    if (!/\*|(^|\/):/.test(lowerCasedPath))
+        return (req: IncomingMessage) => getRequestPath(req).toLowerCase() === lowerCasedPath
+
+    const expression = globToRegExp(lowerCasedPath)
+    return (req: IncomingMessage) => expression.test(getRequestPath(req).toLowerCase())
+}
+
+const globToRegExp = (glob: string): RegExp => {
+    const pattern = glob
+        .split(/(\*\*|\*|(?<=^|\/):[a-z0-9_]+)/i)
+        .map((part, index) => {
+            // odd parts are the wildcards captured by the split, even parts are literal
+            if (index % 2 === 0)
+                return part.replace(/[.+?^${}()|[\]\\]/g, '\\$&')
+
+            if (part === '**')
+                return '.*'
+
+            if (part === '*')
+                return '[^/]*'
+
+            return '[^/]+'
+        })
+        .join('')
+
+    return new RegExp(`^${pattern}$`)
+}
@@ -0,0 +1,1026 @@
+import { EventEmitter } from "events";
+import { NextFunction, Request, Response, Router } from "express";
+import { IncomingMessage, ServerResponse } from "http";
+import { describeCheckError, getBackoffDelayInMilliseconds, runCheck, toDependencyStatus } from "./checks";
+import { CircuitBreaker, getCircuitBreaker } from "./circuitBreaker";
+import {
+    DefaultConfig,
+    getBackoffPolicy,
+    getCheckTimeoutInMilliseconds,
+    getCircuitBreakerPolicy,
+    getFlapDetectionPolicy,
+    getRetryIntervalInMilliseconds,
+    resolveConfiguration
+} from "./config";
+import { CircuitOpenError, DependencyGraphError, ReadinessTimeoutError } from "./errors";
+import { dependencyLogContext, formatDataSuffix, toStructuredLogger } from "./logging";
+import { getRetryAfterInSeconds, renderNotReadyResponse, sendNotReadyResponse } from "./notReadyResponse";
+import { CompiledPathMatcher, compilePathMatchers, matchesAny } from "./paths";
+import { getPrerequisites, validateDependencyGraph, withPrerequisites } from "./graph";
+import { redactData } from "./redaction";
+import { checkDependenciesHealthWith } from "./health";
+import { HealthCheckCache } from "./healthCache";
+import { ReadinessHistory } from "./history";
+import { buildHealthRouter, getHealthRouterPaths, IHealthRouterOptions } from "./healthRouter";
+import { buildAdminRouter, getAdminRouterPaths, IAdminRouterOptions } from "./adminRouter";
+import {
+    IBackoffPolicy,
+    IConfig,
+    IDependenciesHealth,
+    IDependency,
+    IDependencyEvent,
+    IDependencyReadinessHistory,
+    IDependencyReadinessState,
+    IDependencyStatus,
+    IDrainResult,
+    IFastifyReply,
+    IFastifyRequest,
+    IFlapDetectionPolicy,
+    IHealthCheckOptions,
+    IKoaContext,
+    ILogger,
+    INotReadyDetails,
+    IOverride,
+    IOverrides,
+    IReadinessEvents,
+    IReadinessResult,
+    IStructuredLogger,
+    FastifyReadinessHook,
+    KoaReadinessMiddleware,
+    OverrideState,
+    PathMatcher,
+    ReadinessGate,
+    ReadinessMiddleware
+} from "./types";
+
+interface IOverrideEntry {
+    override: IOverride
+    timeoutId?: NodeJS.Timeout
+}
+
+interface IDependencyStateItem {
+    name: string
+    data: {[key: string]: string}
+    internalDataKeys?: string[]
+    critical: boolean
+    required: boolean
+    ready: boolean
+    isReady: () => Promise<boolean>
+    isHealthy: () => Promise<boolean | IDependencyStatus>
+    retryIntervalInMilliseconds: number
+    checkTimeoutInMilliseconds?: number
+    backoff?: IBackoffPolicy
+    circuitBreaker?: CircuitBreaker
+    attempts: number
+    consecutiveFailures: number
+    history: ReadinessHistory
+    flapping: boolean
+    stableSince?: number
+    dependsOn: string[]
+    started: boolean
+    removed: boolean
+    timeoutId?: NodeJS.Timeout
+}
+
+/**
+ * Tracks the readiness of a set of dependencies.  Each controller owns its own dependency state, logger,
+ * configuration and timers so multiple controllers can safely co-exist within a process.  Readiness lifecycle events
+ * described by {IReadinessEvents} are emitted as dependency and service state changes
+ */
+export class ReadinessController extends EventEmitter {
+    private readonly dependencies: IDependency[]
+    private readonly configuration: IConfig
+    private readonly dependencyStateItems:Array<IDependencyStateItem> = []
+    private readonly whitelistMatchers:CompiledPathMatcher[]
+    private readonly guardedMatchers?:CompiledPathMatcher[]
+    private readonly flapDetectionPolicy?:IFlapDetectionPolicy
+    private informationLogger:IStructuredLogger
+    private ready:boolean = false
+    private stopped:boolean = false
+    private maximumWaitTimeTimeout:NodeJS.Timeout
+    private readinessTimeoutError:ReadinessTimeoutError
+    private readonly readinessWaiters:Array<{ resolve: () => void, reject: (err: Error) => void }> = []
+    private readonly healthCheckCache = new HealthCheckCache()
+    private readonly signalListeners = new Map<NodeJS.Signals, () => void>()
+    private inFlightRequests:number = 0
+    private draining:boolean = false
+    private drainPromise:Promise<IDrainResult>
+    private onRequestsCompleted:() => void
+    private serviceOverride:IOverrideEntry
+    private readonly dependencyOverrides = new Map<string, IOverrideEntry>()
+
+    /**
+     * Creates a readiness controller and starts checking whether critical dependencies are ready
+     * @param dependencies - Array of {IDependency} objects
+     * @throws {DependencyGraphError} if dependencies declare unknown or cyclic 'dependsOn' prerequisites
+     * @param config - Optional configuration.  If not defined the DefaultConfig will be used
+     * @param logger - Optional {ILogger} or {IStructuredLogger}
+     */
+    constructor(dependencies: IDependency[], config?: IConfig, logger?: ILogger | IStructuredLogger) {
+        super()
+        validateDependencyGraph(dependencies)
+        this.dependencies = [...dependencies]
+        this.configuration = resolveConfiguration(config)
+        this.informationLogger = toStructuredLogger(logger)
+        this.whitelistMatchers = compilePathMatchers(this.configuration.whitelistedPaths ?? [])
+        this.guardedMatchers = this.configuration.guardedPaths ? compilePathMatchers(this.configuration.guardedPaths) : undefined
+        this.flapDetectionPolicy = getFlapDetectionPolicy(this.configuration)
+        this.configuration.metrics?.setServiceReady(false)
+        this.drainOnSignals(this.configuration.drainOnSignals ?? [])
+
+        this.checkServiceReadiness()
+    }
+
+    /**
+     * Subscribes to a readiness lifecycle event
+     * @param event - the name of the event
+     * @param listener - the function called with the event payload
+     */
+    on<E extends keyof IReadinessEvents>(event: E, listener: IReadinessEvents[E]): this {
+        return super.on(event, listener)
+    }
+
+    /**
+     * Subscribes to the next occurrence of a readiness lifecycle event
+     * @param event - the name of the event
+     * @param listener - the function called with the event payload
+     */
+    once<E extends keyof IReadinessEvents>(event: E, listener: IReadinessEvents[E]): this {
+        return super.once(event, listener)
+    }
+
+    /**
+     * Unsubscribes from a readiness lifecycle event
+     * @param event - the name of the event
+     * @param listener - the function to remove
+     */
+    off<E extends keyof IReadinessEvents>(event: E, listener: IReadinessEvents[E]): this {
+        return super.off(event, listener)
+    }
+
+    /**
+     * Emits a readiness lifecycle event.  Errors thrown by listeners are logged so they cannot interrupt readiness checks
+     * @param event - the name of the event
+     * @param payload - the event payload
+     */
+    emit<E extends keyof IReadinessEvents>(event: E, ...payload: Parameters<IReadinessEvents[E]>): boolean {
+        try {
+            return super.emit(event, ...payload)
+        } catch (err) {
+            this.informationLogger?.error(`An error occurred in a '${event}' event listener, error: ${err?.message || err}`, { error: err })
+            return true
+        }
+    }
+
+    /**
+     * Returns the readiness middleware bound to this controller
+     */
+    middleware(): ReadinessMiddleware {
+        return (req: Request, res: Response, next: NextFunction):void => {
+            const notReadyDetails = this.getNotReadyDetails(req)
+
+            if (notReadyDetails) {
+                sendNotReadyResponse(req, res, this.configuration, notReadyDetails)
+                return
+            }
+
+            this.trackRequest(res)
+            next()
+        }
+    }
+
+    /**
+     * Returns a readiness gate bound to this controller for a node http server, e.g.
+     * `http.createServer((req, res) => gate(req, res) && handle(req, res))`
+     */
+    gate(): ReadinessGate {
+        return (req: IncomingMessage, res: ServerResponse): boolean => {
+            const notReadyDetails = this.getNotReadyDetails(req)
+
+            if (notReadyDetails) {
+                const response = renderNotReadyResponse(req.headers.accept, this.configuration, notReadyDetails)
+                res.writeHead(response.statusCode, response.headers)
+                res.end(response.body)
+                return false
+            }
+
+            this.trackRequest(res)
+            return true
+        }
+    }
+
+    /**
+     * Returns a Koa readiness middleware bound to this controller, e.g. `app.use(controller.koaMiddleware())`
+     */
+    koaMiddleware(): KoaReadinessMiddleware {
+        return async (ctx: IKoaContext, next: () => Promise<unknown>): Promise<void> => {
+            const notReadyDetails = this.getNotReadyDetails(ctx.req)
+
+            if (notReadyDetails) {
+                const response = renderNotReadyResponse(ctx.req.headers.accept, this.configuration, notReadyDetails)
+                Object.keys(response.headers).forEach(name => ctx.set(name, response.headers[name]))
+                ctx.status = response.statusCode
+                ctx.body = response.body
+                return
+            }
+
+            this.trackRequest(ctx.res)
+            await next()
+        }
+    }
+
+    /**
+     * Returns a Fastify 'onRequest' readiness hook bound to this controller, e.g.
+     * `fastify.addHook('onRequest', controller.fastifyHook())`
+     */
+    fastifyHook(): FastifyReadinessHook {
+        return (request: IFastifyRequest, reply: IFastifyReply, done: () => void): void => {
+            const notReadyDetails = this.getNotReadyDetails(request.raw)
+
+            if (notReadyDetails) {
+                const response = renderNotReadyResponse(request.raw.headers.accept, this.configuration, notReadyDetails)
+                reply.code(response.statusCode).headers(response.headers).send(response.body)
+                return
+            }
+
+            this.trackRequest(reply.raw)
+            done()
+        }
+    }
+
+    /**
+     * Returns an express router exposing liveness, readiness and health endpoints.  The endpoints are whitelisted by the
+     * controllers middleware
+     * @param options - Optional {IHealthRouterOptions}
+     */
+    healthRouter(options?: IHealthRouterOptions): Router {
+        this.whitelistPaths(getHealthRouterPaths(options))
+        return buildHealthRouter(this, options)
+    }
+
+    /**
+     * Returns an express router to view and change readiness overrides, protected by the 'authorize' hook.  The endpoints
+     * are whitelisted by the controllers middleware
+     * @param options - {IAdminRouterOptions}
+     */
+    adminRouter(options: IAdminRouterOptions): Router {
+        this.whitelistPaths(getAdminRouterPaths(options))
+        return buildAdminRouter(this, options)
+    }
+
+    /**
+     * Adds paths to route traffic to even if dependencies are not yet ready
+     * @param paths - Array of {PathMatcher}
+     */
+    whitelistPaths(paths: PathMatcher[]): void {
+        this.whitelistMatchers.push(...compilePathMatchers(paths))
+    }
+
+    /**
+     * Adds a dependency and starts tracking its readiness if it is critical.  Readiness is re-evaluated immediately, so a
+     * ready service is no longer ready until an added critical dependency is ready
+     * @param dependency - {IDependency}
+     * @throws {DependencyGraphError} if a dependency with the same name exists or the dependency declares unknown or
+     * cyclic 'dependsOn' prerequisites
+     * @throws {Error} if the controller has stopped checking readiness, i.e. it was stopped, is draining or gave up
+     * waiting for readiness, as an added dependency would never be checked
+     */
+    addDependency(dependency: IDependency): void {
+        if (this.stopped)
+            throw new Error(`dependency '${dependency.name}' cannot be added as readiness is no longer checked`)
+
+        if (this.dependencies.some(x => x.name === dependency.name))
+            throw new DependencyGraphError(`dependency '${dependency.name}' already exists`)
+
+        validateDependencyGraph([...this.dependencies, dependency])
+        this.dependencies.push(dependency)
+        this.informationLogger?.info(`${dependency.critical ? 'Critical dependency' : 'Dependency'} '${dependency.name}' added`, { dependency: dependency.name, critical: dependency.critical })
+
+        if (dependency.critical)
+            this.trackDependencies([dependency], true)
+
+        this.evaluateReadiness()
+    }
+
+    /**
+     * Removes a dependency and stops tracking its readiness.  Readiness is re-evaluated immediately
+     * @param name - the name of the dependency
+     * @returns false if the dependency does not exist
+     * @throws {DependencyGraphError} if another dependency depends on the dependency
+     */
+    removeDependency(name: string): boolean {
+        const index = this.dependencies.findIndex(x => x.name === name)
+
+        if (index === -1)
+            return false
+
+        const dependents = this.dependencies.filter(x => getPrerequisites(x).includes(name)).map(x => x.name)
+
+        if (dependents.length > 0)
+            throw new DependencyGraphError(`dependency '${name}' is a prerequisite of ${dependents.map(x => `'${x}'`).join(', ')}`)
+
+        const [dependency] = this.dependencies.splice(index, 1)
+        const stateIndex = this.dependencyStateItems.findIndex(x => x.name === name)
+
+        if (stateIndex !== -1) {
+            const [dependencyStateItem] = this.dependencyStateItems.splice(stateIndex, 1)
+            dependencyStateItem.removed = true
+            clearTimeout(dependencyStateItem.timeoutId)
+        }
+
+        this.removeOverride(name)
+        this.informationLogger?.info(`${dependency.critical ? 'Critical dependency' : 'Dependency'} '${name}' removed`, { dependency: name, critical: dependency.critical })
+        this.evaluateReadiness()
+
+        return true
+    }
+
+    /**
+     * Returns the dependencies of the controller, including those added and excluding those removed since it was created
+     */
+    getDependencies(): IDependency[] {
+        return [...this.dependencies]
+    }
+
+    /**
+     * Returns a boolean indicating whether all critical dependencies are ready
+     */
+    isReady(): boolean {
+        return this.ready
+    }
+
+    /**
+     * Returns a middleware which rejects requests while any of the given dependencies are not ready, allowing routes to
+     * declare the non-critical dependencies they need.  The dependencies are checked until ready and then monitored
+     * @param names - names of the dependencies the route requires
+     * @throws {DependencyGraphError} if a dependency is unknown
+     */
+    requireDependencies(...names: string[]): ReadinessMiddleware {
+        const dependencies = names.map(name => {
+            const dependency = this.dependencies.find(x => x.name === name)
+
+            if (!dependency)
+                throw new DependencyGraphError(`unknown dependency '${name}'`)
+
+            return dependency
+        })
+
+        this.trackDependencies(dependencies, false)
+
+        return (req: Request, res: Response, next: NextFunction):void => {
+            const pendingDependencies = names.filter(name => !this.isDependencyReady(name))
+
+            if (pendingDependencies.length === 0)
+                return next()
+
+            this.informationLogger?.warn(`Route requires dependencies which are not ready: ${pendingDependencies.join(', ')}`)
+            sendNotReadyResponse(req, res, this.configuration, {
+                statusCode: this.configuration.notReadyStatusCode,
+                retryAfterInSeconds: getRetryAfterInSeconds(this.configuration),
+                pendingDependencies,
+                draining: false
+            })
+        }
+    }
+
+    /**
+     * Returns a boolean indicating whether a dependency tracked by the controller is ready
+     * @param name - the name of the dependency
+     */
+    isDependencyReady(name: string): boolean {
+        const dependencyStateItem = this.dependencyStateItems.find(x => x.name === name)
+        return dependencyStateItem !== undefined && this.isItemReady(dependencyStateItem)
+    }
+
+    /**
+     * Returns a boolean indicating whether the service is ready but running degraded as a tracked non-critical dependency
+     * is not ready
+     */
+    isDegraded(): boolean {
+        return this.ready && this.dependencyStateItems.some(x => !x.required && !this.isItemReady(x))
+    }
+
+    /**
+     * Returns the names of the critical dependencies which are not yet ready
+     */
+    getPendingDependencies(): string[] {
+        return this.dependencyStateItems
+            .filter(x => x.critical && !this.isItemReady(x))
+            .map(x => x.name)
+    }
+
+    /**
+     * Returns the readiness state of each critical dependency, with data redacted
+     */
+    getDependencyStates(): IDependencyReadinessState[] {
+        return this.dependencyStateItems
+            .filter(x => x.critical)
+            .map(x => ({ name: x.name, data: redactData(this.configuration, x), ready: this.isItemReady(x) }))
+    }
+
+    /**
+     * Returns a promise that resolves once all critical dependencies are ready, or rejects with a
+     * {ReadinessTimeoutError} if they do not become ready within the maximum wait time
+     */
+    whenReady(): Promise<void> {
+        if (this.ready)
+            return Promise.resolve()
+
+        if (this.readinessTimeoutError)
+            return Promise.reject(this.readinessTimeoutError)
+
+        return new Promise((resolve, reject) => {
+            this.readinessWaiters.push({ resolve, reject })
+        })
+    }
+
+    /**
+     * Checks the health of all dependencies tracked by the controller.  Results are cached for
+     * 'healthCacheTtlInMilliseconds' and concurrent calls share in-flight checks
+     * @param options - Optional {IHealthCheckOptions}
+     */
+    checkHealth(options?: IHealthCheckOptions): Promise<IDependenciesHealth> {
+        return checkDependenciesHealthWith(this.dependencies, this.configuration, this.informationLogger, options, this.healthCheckCache,
+            this.getOverrides(), this.getHistory())
+    }
+
+    /**
+     * Returns the readiness history of tracked dependencies, i.e. critical dependencies, their prerequisites and
+     * dependencies required by routes.  Up to 'historySize' transitions are kept per dependency
+     * @param name - Optional name of a dependency, by default the history of all tracked dependencies is returned
+     * @param since - Optional time from which transitions are returned, by default all kept transitions are
+     */
+    getHistory(name?: string, since?: Date): IDependencyReadinessHistory[] {
+        return this.dependencyStateItems
+            .filter(x => name === undefined || x.name === name)
+            .map(x => ({ name: x.name, flapping: x.flapping, transitions: x.history.getTransitions(since) }))
+    }
+
+    /**
+     * Marks the service not ready and stops checking dependencies so the service can shut down gracefully.  Whitelisted
+     * paths continue to be routed to while other requests are rejected
+     * @param timeoutInMilliseconds - Optional maximum time to wait for in-flight requests, defaults to
+     * 'drainTimeoutInMilliseconds'
+     * @returns a promise which resolves once requests passed on by the middleware have completed or the timeout expires
+     */
+    beginDraining(timeoutInMilliseconds?: number): Promise<IDrainResult> {
+        if (this.drainPromise)
+            return this.drainPromise
+
+        this.draining = true
+        this.stop()
+        this.informationLogger?.info(`Service is draining, ${this.inFlightRequests} requests in flight`)
+
+        if (this.ready)
+            this.setReady(false)
+
+        this.emit('serviceDraining', { timestamp: new Date() })
+
+        this.drainPromise = new Promise(resolve => {
+            const drained = () => {
+                clearTimeout(timeoutId)
+                this.onRequestsCompleted = undefined
+
+                const result:IDrainResult = { completed: this.inFlightRequests === 0, inFlightRequests: this.inFlightRequests }
+
+                if (result.completed)
+                    this.informationLogger?.info('Service has drained')
+                else
+                    this.informationLogger?.warn(`Service drain timed out with ${result.inFlightRequests} requests in flight`)
+
+                this.emit('serviceDrained', { ...result, timestamp: new Date() })
+                resolve(result)
+            }
+            const timeoutId = setTimeout(drained, timeoutInMilliseconds ?? this.configuration.drainTimeoutInMilliseconds)
+
+            if (this.inFlightRequests === 0)
+                drained()
+            else
+                this.onRequestsCompleted = drained
+        })
+
+        return this.drainPromise
+    }
+
+    /**
+     * Overrides the readiness of the service or of a dependency regardless of dependency checks, e.g. to take the
+     * service out of rotation during an incident.  Replaces any existing override of the service or dependency
+     * @param state - the overridden readiness state
+     * @param reason - why the readiness is overridden
+     * @param ttlInMilliseconds - Optional time after which the override is cleared, by default it does not expire
+     * @param dependency - Optional name of the dependency to override, by default the service readiness is overridden
+     * @throws {DependencyGraphError} if the dependency is unknown
+     */
+    setOverride(state: OverrideState, reason: string, ttlInMilliseconds?: number, dependency?: string): IOverride {
+        if (dependency !== undefined && !this.dependencies.some(x => x.name === dependency))
+            throw new DependencyGraphError(`unknown dependency '${dependency}'`)
+
+        this.removeOverride(dependency)
+
+        const setAt = new Date()
+        const entry:IOverrideEntry = { override: { state, reason, setAt } }
+
+        if (ttlInMilliseconds) {
+            entry.override.expiresAt = new Date(setAt.getTime() + ttlInMilliseconds)
+            entry.timeoutId = setTimeout(() => this.clearOverride(dependency), ttlInMilliseconds)
+        }
+
+        if (dependency === undefined)
+            this.serviceOverride = entry
+        else
+            this.dependencyOverrides.set(dependency, entry)
+
+        this.informationLogger?.warn(`${describeOverrideTarget(dependency)} readiness overridden to '${state}', reason: ${reason}`,
+            { dependency, override: entry.override })
+        this.startUnblockedDependencies()
+        this.evaluateReadiness()
+
+        return entry.override
+    }
+
+    /**
+     * Clears the readiness override of the service or of a dependency
+     * @param dependency - Optional name of the dependency, by default the service override is cleared
+     */
+    clearOverride(dependency?: string): void {
+        if (!this.removeOverride(dependency))
+            return
+
+        this.informationLogger?.info(`${describeOverrideTarget(dependency)} readiness override cleared`, { dependency })
+        this.evaluateReadiness()
+    }
+
+    /**
+     * Returns the active readiness overrides of the service and dependencies
+     */
+    getOverrides(): IOverrides {
+        const dependencies:{[name: string]: IOverride} = {}
+        this.dependencyOverrides.forEach((entry, name) => dependencies[name] = entry.override)
+
+        return { service: this.serviceOverride?.override, dependencies }
+    }
+
+    /**
+     * Returns a boolean indicating whether the service is draining
+     */
+    isDraining(): boolean {
+        return this.draining
+    }
+
+    /**
+     * Set a logger
+     * @param logger - {ILogger} or {IStructuredLogger}
+     */
+    setLogger(logger: ILogger | IStructuredLogger): void {
+        this.informationLogger = toStructuredLogger(logger)
+    }
+
+    /**
+     * Removes any NodeJS.Timeout instances and signal listeners created by the controller
+     */
+    stop(): void {
+        this.stopChecking()
+
+        this.signalListeners.forEach((listener, signal) => process.off(signal, listener))
+        this.signalListeners.clear()
+    }
+
+    private stopChecking() {
+        this.stopped = true
+
+        if (this.maximumWaitTimeTimeout) {
+            clearTimeout(this.maximumWaitTimeTimeout)
+        }
+
+        for (const dependencyStateItem of this.dependencyStateItems) {
+            if (dependencyStateItem.timeoutId)
+                clearTimeout(dependencyStateItem.timeoutId)
+        }
+
+        clearTimeout(this.serviceOverride?.timeoutId)
+        this.dependencyOverrides.forEach(entry => clearTimeout(entry.timeoutId))
+    }
+
+    private removeOverride(dependency?: string): boolean {
+        const entry = dependency === undefined ? this.serviceOverride : this.dependencyOverrides.get(dependency)
+
+        if (!entry)
+            return false
+
+        clearTimeout(entry.timeoutId)
+
+        if (dependency === undefined)
+            this.serviceOverride = undefined
+        else
+            this.dependencyOverrides.delete(dependency)
+
+        return true
+    }
+
+    private drainOnSignals(signals: NodeJS.Signals[]) {
+        signals.forEach(signal => {
+            const listener = () => {
+                this.informationLogger?.info(`Received ${signal}`)
+                this.beginDraining()
+            }
+
+            this.signalListeners.set(signal, listener)
+            process.once(signal, listener)
+        })
+    }
+
+    private getNotReadyDetails(req: IncomingMessage): INotReadyDetails | undefined {
+        if (this.ready || matchesAny(this.whitelistMatchers, req))
+            return undefined
+
+        if (this.guardedMatchers && !matchesAny(this.guardedMatchers, req))
+            return undefined
+
+        this.informationLogger?.warn(this.draining ? 'Service is draining and no longer handling requests' : 'Service is not yet ready to handle requests')
+
+        return {
+            statusCode: this.configuration.notReadyStatusCode,
+            retryAfterInSeconds: this.draining ? undefined : getRetryAfterInSeconds(this.configuration),
+            pendingDependencies: this.getPendingDependencies(),
+            draining: this.draining
+        }
+    }
+
+    private trackRequest(res: ServerResponse) {
+        if (typeof res.once === 'function') {
+            let completed = false
+            const requestCompleted = () => {
+                if (completed)
+                    return
+
+                completed = true
+                this.inFlightRequests--
+
+                if (this.inFlightRequests === 0)
+                    this.onRequestsCompleted?.()
+            }
+
+            this.inFlightRequests++
+            res.once('finish', requestCompleted)
+            res.once('close', requestCompleted)
+        }
+    }
+
+    private maximumWaitTimeExceeded() {
+        const strategy = this.configuration.onReadinessTimeout
+        const retrying = typeof strategy !== 'function' && strategy.action === 'retry'
+
+        // signal listeners are kept so the service can still drain once it has given up waiting for readiness
+        if (!retrying)
+            this.stopChecking()
+
+        const items = this.getDependencyStates()
+
+        if (this.informationLogger) {
+            const suffix  = this.configuration.logOutDependenciesDataOnFailure === true ? ` Critical dependencies: ${JSON.stringify(items)}` : ''
+            this.informationLogger?.error(`All critical dependencies did not become healthy.${suffix}`)
+        }
+
+        this.emit('readinessTimeout', { dependencies: items, timestamp: new Date() })
+
+        if (retrying)
+            return
+
+        this.readinessTimeoutError = new ReadinessTimeoutError(items)
+        this.readinessWaiters.splice(0).forEach(waiter => waiter.reject(this.readinessTimeoutError))
+
+        if (typeof strategy === 'function') {
+            strategy(items)
+            return
+        }
+
+        if (strategy.action === 'exit')
+            process.exit(strategy.exitCode ?? 1)
+    }
+
+    private checkServiceReadiness() {
+        const criticalDependencies = getCriticalDependencies(this.dependencies)
+
+        if (criticalDependencies.length === 0) {
+            this.setReady(true)
+            return
+        }
+
+        const maximumWaitTimeForServiceReadinessInMilliseconds = this.configuration.maximumWaitTimeForServiceReadinessInMilliseconds ?? DefaultConfig.maximumWaitTimeForServiceReadinessInMilliseconds
+        this.maximumWaitTimeTimeout = setTimeout(() => this.maximumWaitTimeExceeded(), maximumWaitTimeForServiceReadinessInMilliseconds)
+
+        this.trackDependencies(criticalDependencies, true)
+    }
+
+    private trackDependencies(dependencies: IDependency[], required: boolean) {
+        withPrerequisites(this.dependencies, dependencies).forEach(dependency => {
+            const trackedItem = this.dependencyStateItems.find(x => x.name === dependency.name)
+
+            if (trackedItem) {
+                trackedItem.required = trackedItem.required || required
+                return
+            }
+
+            const { name, data, internalDataKeys, critical, isReady, isHealthy } = dependency
+            let retryIntervalInMilliseconds = getRetryIntervalInMilliseconds(this.configuration, dependency)
+
+            const dependencyStateItem:IDependencyStateItem = {
+                name,
+                data,
+                internalDataKeys,
+                critical,
+                required,
+                ready: false,
+                isReady,
+                isHealthy: isHealthy ?? isReady,
+                retryIntervalInMilliseconds,
+                checkTimeoutInMilliseconds: getCheckTimeoutInMilliseconds(this.configuration, dependency),
+                backoff: getBackoffPolicy(this.configuration, dependency),
+                circuitBreaker: getCircuitBreaker(dependency, getCircuitBreakerPolicy(this.configuration, dependency)),
+                attempts: 0,
+                consecutiveFailures: 0,
+                history: new ReadinessHistory(Math.max(this.configuration.historySize, this.flapDetectionPolicy?.transitionThreshold ?? 0)),
+                flapping: false,
+                dependsOn: getPrerequisites(dependency),
+                started: false,
+                removed: false
+            }
+
+            this.dependencyStateItems.push(dependencyStateItem)
+        })
+
+        this.startUnblockedDependencies()
+    }
+
+    private startUnblockedDependencies() {
+        if (this.stopped)
+            return
+
+        for (const dependencyStateItem of this.dependencyStateItems) {
+            if (dependencyStateItem.started || !this.prerequisitesReady(dependencyStateItem))
+                continue
+
+            dependencyStateItem.started = true
+
+            // noinspection JSIgnoredPromiseFromCall
+            this.checkDependencyReadiness(dependencyStateItem)
+        }
+    }
+
+    private prerequisitesReady(dependencyStateItem: IDependencyStateItem): boolean {
+        return dependencyStateItem.dependsOn.every(name => this.isDependencyReady(name))
+    }
+
+    private isItemReady(dependencyStateItem: IDependencyStateItem): boolean {
+        const override = this.dependencyOverrides.get(dependencyStateItem.name)?.override
+        return override ? override.state === 'ready' : dependencyStateItem.ready
+    }
+
+    private evaluateReadiness() {
+        if (this.draining)
+            return
+
+        const serviceOverride = this.serviceOverride?.override
+        const ready = serviceOverride
+            ? serviceOverride.state === 'ready'
+            : this.dependencyStateItems.every(x => !x.required || this.isItemReady(x))
+
+        if (ready === this.ready)
+            return
+
+        if (!ready) {
+            this.setReady(false)
+            this.informationLogger?.warn(serviceOverride ? 'Service is no longer ready as its readiness is overridden' : 'Service is no longer ready as a critical dependency is not ready')
+            return
+        }
+
+        clearTimeout(this.maximumWaitTimeTimeout)
+        this.informationLogger?.info(serviceOverride ? 'Service is now ready as its readiness is overridden' : 'All critical dependencies are now ready')
+        this.setReady(true)
+        this.readinessWaiters.splice(0).forEach(waiter => waiter.resolve())
+    }
+
+    private setReady(ready: boolean) {
+        this.ready = ready
+        this.configuration.metrics?.setServiceReady(ready)
+        this.emit(ready ? 'serviceReady' : 'serviceNotReady', { timestamp: new Date() })
+    }
+
+    private emitCheckEvents(dependencyStateItem: IDependencyStateItem, healthy: boolean, durationInMilliseconds: number, error?: Error) {
+        const event:IDependencyEvent = {
+            name: dependencyStateItem.name,
+            data: redactData(this.configuration, dependencyStateItem),
+            critical: dependencyStateItem.critical,
+            attempt: dependencyStateItem.attempts,
+            durationInMilliseconds,
+            timestamp: new Date()
+        }
+
+        if (error) {
+            this.emit('dependencyCheckFailed', { ...event, error })
+            return
+        }
+
+        this.emit(healthy ? 'dependencyReady' : 'dependencyUnhealthy', event)
+    }
+
+    private runDependencyCheck<T extends boolean | IDependencyStatus>(dependencyStateItem: IDependencyStateItem, check: () => Promise<T>): Promise<T> {
+        const runTimedCheck = () => runCheck(check, dependencyStateItem.checkTimeoutInMilliseconds)
+
+        return dependencyStateItem.circuitBreaker
+            ? dependencyStateItem.circuitBreaker.execute(runTimedCheck, this.informationLogger)
+            : runTimedCheck()
+    }
+
+    private observeCheck(dependencyStateItem: IDependencyStateItem, healthy: boolean, durationInMilliseconds: number, error?: Error) {
+        // short-circuited checks did not reach the dependency
+        if (error instanceof CircuitOpenError)
+            return
+
+        this.configuration.metrics?.observeCheck(dependencyStateItem.name, dependencyStateItem.critical, healthy, durationInMilliseconds)
+    }
+
+    private markReady(dependencyStateItem: IDependencyStateItem, reason: string): boolean {
+        if (dependencyStateItem.flapping) {
+            const now = Date.now()
+            dependencyStateItem.stableSince = dependencyStateItem.stableSince ?? now
+
+            if (now - dependencyStateItem.stableSince < this.flapDetectionPolicy.stableForInMilliseconds) {
+                this.informationLogger?.debug(`${describeDependency(dependencyStateItem)} is flapping and held not ready until stable`, { dependency: dependencyStateItem.name, critical: dependencyStateItem.critical })
+                return false
+            }
+
+            dependencyStateItem.flapping = false
+            dependencyStateItem.stableSince = undefined
+            reason = `${reason}, stable for ${this.flapDetectionPolicy.stableForInMilliseconds} milliseconds after flapping`
+        }
+
+        dependencyStateItem.ready = true
+        dependencyStateItem.history.record({ ready: true, timestamp: new Date(), reason })
+        return true
+    }
+
+    private markNotReady(dependencyStateItem: IDependencyStateItem, reason: string) {
+        const timestamp = new Date()
+        dependencyStateItem.ready = false
+        dependencyStateItem.history.record({ ready: false, timestamp, reason })
+
+        const policy = this.flapDetectionPolicy
+
+        if (!policy || dependencyStateItem.flapping)
+            return
+
+        const windowStart = new Date(timestamp.getTime() - policy.windowInMilliseconds)
+        const transitions = dependencyStateItem.history.getTransitions(windowStart).length
+
+        if (transitions < policy.transitionThreshold)
+            return
+
+        dependencyStateItem.flapping = true
+        this.informationLogger?.warn(`${describeDependency(dependencyStateItem)} is flapping after ${transitions} readiness transitions within ${policy.windowInMilliseconds} milliseconds, held not ready until stable for ${policy.stableForInMilliseconds} milliseconds`,
+            dependencyLogContext(this.configuration, dependencyStateItem))
+    }
+
+    private scheduleMonitoring(dependencyStateItem: IDependencyStateItem) {
+        if (this.stopped || (dependencyStateItem.required && !this.configuration.continuousMonitoring))
+            return
+
+        const monitorAgain = () => this.monitorDependency(dependencyStateItem)
+        dependencyStateItem.timeoutId = setTimeout(monitorAgain, this.configuration.monitoringIntervalInMilliseconds)
+    }
+
+    private async monitorDependency(dependencyStateItem: IDependencyStateItem) {
+        dependencyStateItem.attempts++
+        const startTime = Date.now()
+        let healthy = false
+        let error:Error
+
+        try {
+            healthy = toDependencyStatus(await this.runDependencyCheck(dependencyStateItem, dependencyStateItem.isHealthy)).healthy
+        } catch (err) {
+            error = err
+
+            if (!(err instanceof CircuitOpenError))
+                this.informationLogger?.error(`An error occurred while monitoring ${describeDependency(dependencyStateItem)}${formatDataSuffix(this.configuration, dependencyStateItem)}, ${describeCheckError(err)}`,
+                    dependencyLogContext(this.configuration, dependencyStateItem, { durationInMilliseconds: Date.now() - startTime, error: err }))
+        }
+
+        if (dependencyStateItem.removed)
+            return
+
+        const durationInMilliseconds = Date.now() - startTime
+        this.observeCheck(dependencyStateItem, healthy, durationInMilliseconds, error)
+        this.emitCheckEvents(dependencyStateItem, healthy, durationInMilliseconds, error)
+
+        if (healthy) {
+            dependencyStateItem.consecutiveFailures = 0
+
+            if (!dependencyStateItem.ready && this.markReady(dependencyStateItem, 'health check passed')) {
+                this.informationLogger?.info(`${describeDependency(dependencyStateItem)} has recovered`, dependencyLogContext(this.configuration, dependencyStateItem))
+                this.evaluateReadiness()
+            }
+        } else {
+            dependencyStateItem.consecutiveFailures++
+            dependencyStateItem.stableSince = undefined
+
+            if (dependencyStateItem.ready && dependencyStateItem.consecutiveFailures >= this.configuration.consecutiveFailuresBeforeNotReady) {
+                this.markNotReady(dependencyStateItem, `${dependencyStateItem.consecutiveFailures} consecutive failed checks${error ? `, ${describeCheckError(error)}` : ''}`)
+                this.informationLogger?.warn(`${describeDependency(dependencyStateItem)} is no longer ready after ${dependencyStateItem.consecutiveFailures} consecutive failures${formatDataSuffix(this.configuration, dependencyStateItem)}`,
+                    dependencyLogContext(this.configuration, dependencyStateItem))
+
+                if (dependencyStateItem.required)
+                    this.evaluateReadiness()
+            }
+        }
+
+        this.scheduleMonitoring(dependencyStateItem)
+    }
+
+    private async checkDependencyReadiness(dependencyStateItem: IDependencyStateItem) {
+        dependencyStateItem.attempts++
+        const startTime = Date.now()
+        let ready = false
+        let error:Error
+
+        try {
+            ready = await this.runDependencyCheck(dependencyStateItem, dependencyStateItem.isReady)
+
+            if (!ready)
+                this.informationLogger?.warn(`${describeDependency(dependencyStateItem)} is not ready yet${formatDataSuffix(this.configuration, dependencyStateItem)}`,
+                    dependencyLogContext(this.configuration, dependencyStateItem, { durationInMilliseconds: Date.now() - startTime }))
+        } catch (err) {
+            error = err
+
+            if (!(err instanceof CircuitOpenError))
+                this.informationLogger?.error(`An error occurred while checking health for ${describeDependency(dependencyStateItem)}${formatDataSuffix(this.configuration, dependencyStateItem)}, ${describeCheckError(err)}`,
+                    dependencyLogContext(this.configuration, dependencyStateItem, { durationInMilliseconds: Date.now() - startTime, error: err }))
+        }
+
+        if (dependencyStateItem.removed)
+            return
+
+        const durationInMilliseconds = Date.now() - startTime
+        this.observeCheck(dependencyStateItem, ready, durationInMilliseconds, error)
+        this.emitCheckEvents(dependencyStateItem, ready, durationInMilliseconds, error)
+
+        if (ready && this.markReady(dependencyStateItem, 'readiness check passed')) {
+            this.informationLogger?.info(`${describeDependency(dependencyStateItem)} is ready`, dependencyLogContext(this.configuration, dependencyStateItem, { durationInMilliseconds }))
+            this.evaluateReadiness()
+            this.startUnblockedDependencies()
+            this.scheduleMonitoring(dependencyStateItem)
+            return
+        }
+
+        if (this.stopped)
+            return
+
+        const retryIntervalInMilliseconds = dependencyStateItem.backoff
+            ? getBackoffDelayInMilliseconds(dependencyStateItem.backoff, dependencyStateItem.attempts)
+            : dependencyStateItem.retryIntervalInMilliseconds
+        const checkHealthAgain = () => this.checkDependencyReadiness(dependencyStateItem)
+        dependencyStateItem.timeoutId = setTimeout(checkHealthAgain, retryIntervalInMilliseconds)
+    }
+}
+
+/**
+ * Creates a readiness controller
+ * @param dependencies - Array of {IDependency} objects
+ * @param config - Optional configuration.  If not defined the DefaultConfig will be used
+ * @param logger - Optional {ILogger} or {IStructuredLogger}
+ */
+export const createReadinessController = (dependencies: IDependency[], config?: IConfig, logger?: ILogger | IStructuredLogger): ReadinessController =>
+    new ReadinessController(dependencies, config, logger)
+
+/**
+ * Waits for critical dependencies to become ready without gating requests, e.g. before starting a worker or running
+ * migrations.  Dependencies are no longer checked once it settles
+ * @param dependencies - Array of {IDependency} objects
+ * @param config - Optional configuration.  If not defined the DefaultConfig will be used, 'onReadinessTimeout' is ignored
+ * @param logger - Optional {ILogger} or {IStructuredLogger}
+ * @returns the readiness state of each critical dependency
+ * @throws {ReadinessTimeoutError} with the state of each critical dependency if they do not become ready within the
+ * maximum wait time
+ */
+export const waitForReadiness = async (dependencies: IDependency[], config?: IConfig, logger?: ILogger | IStructuredLogger): Promise<IReadinessResult> => {
+    const startedAt = Date.now()
+    const controller = new ReadinessController(dependencies, { ...config, onReadinessTimeout: { action: 'reject' } }, logger)
+
+    try {
+        await controller.whenReady()
+
+        return {
+            dependencies: controller.getDependencyStates(),
+            durationInMilliseconds: Date.now() - startedAt
+        }
+    } finally {
+        controller.stop()
+    }
+}
+
+const describeOverrideTarget = (dependency?: string): string =>
+    dependency === undefined ? 'Service' : `Dependency '${dependency}'`
+
+const getCriticalDependencies = (dependencies: IDependency[]): IDependency[] => dependencies.filter(x => x.critical)
+
+const describeDependency = (dependencyStateItem: IDependencyStateItem): string =>
+    `${dependencyStateItem.critical ? 'critical ' : ''}dependency '${dependencyStateItem.name}'`
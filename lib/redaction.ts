@@ -0,0 +1,58 @@
+import { getRedactionOptions } from "./config";
+import { IConfig } from "./types";
+
+/** The parts of a dependency whose data is redacted */
+export interface IRedactableDependency {
+    /** the name of the dependency */
+    name: string
+    /** informational data about the dependency */
+    data: {[key: string]: string}
+    /** keys of data which are internal only */
+    internalDataKeys?: string[]
+}
+
+const UrlCredentialsPattern = /([a-z][a-z0-9+.-]*:\/\/)[^/\s@]+@/gi
+
+/**
+ * Returns a copy of the data of a dependency safe to log or return.  Internal only keys are omitted, values of keys
+ * matching a redacted key pattern are replaced with the censor and credentials are stripped from URLs, after which
+ * any custom redactor is applied
+ * @param config - {IConfig}
+ * @param dependency - {IRedactableDependency}
+ */
+export const redactData = (config: IConfig, dependency: IRedactableDependency): {[key: string]: string} => {
+    const options = getRedactionOptions(config)
+    const internalDataKeys = dependency.internalDataKeys ?? []
+    const data:{[key: string]: string} = {}
+
+    Object.keys(dependency.data ?? {})
+        .filter(key => !internalDataKeys.includes(key))
+        .forEach(key => {
+            data[key] = options ? redactValue(key, dependency.data[key], options.keyPatterns, options.stripUrlCredentials, options.censor) : dependency.data[key]
+        })
+
+    return options?.redactor ? options.redactor(data, dependency.name) : data
+}
+
+/**
+ * Replaces the credentials of any URLs in a value with the censor, e.g. for URLs included in error messages
+ * @param value - the value
+ * @param censor - the value credentials are replaced with
+ */
+export const censorUrlCredentials = (value: string, censor: string): string => value.replace(UrlCredentialsPattern, `$1${censor}@`)
+
+const redactValue = (key: string, value: string, keyPatterns: RegExp[], stripUrlCredentials: boolean, censor: string): string => {
+    if (keyPatterns.some(pattern => testPattern(pattern, key)))
+        return censor
+
+    if (stripUrlCredentials && typeof value === 'string')
+        return censorUrlCredentials(value, censor)
+
+    return value
+}
+
+const testPattern = (pattern: RegExp, key: string): boolean => {
+    // global and sticky patterns are stateful between tests
+    pattern.lastIndex = 0
+    return pattern.test(key)
+}
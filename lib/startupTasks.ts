@@ -0,0 +1,146 @@
+import { runCheck, toDependencyCheckError } from "./checks";
+import { CheckTimeoutError, StartupTaskError } from "./errors";
+import { IDependency, IDependencyCheckError, IDependencyStatus } from "./types";
+
+/**
+ * State of a startup task
+ * - `pending`: the task has not run yet or is waiting to be retried
+ * - `running`: an attempt is in progress
+ * - `completed`: an attempt succeeded, the task is not run again
+ * - `failed`: every attempt failed, the task is not run again
+ */
+export type StartupTaskState = 'pending' | 'running' | 'completed' | 'failed'
+
+/** Context passed to each attempt of a startup task */
+export interface IStartupTaskContext {
+    /** the attempt number, starting at 1 */
+    attempt: number
+    /** aborted if the attempt times out */
+    signal: AbortSignal
+    /** reports the progress of the task, reported in the 'details' of the task's health */
+    reportProgress: (progress: {[key: string]: unknown}) => void
+}
+
+/** Startup task options */
+export interface IStartupTaskOptions {
+    /** the name of the task */
+    name: string
+    /** runs the task, e.g. preloading a cache or checking migrations, rejecting if it fails */
+    run: (context: IStartupTaskContext) => Promise<void>
+    /** additional informational data about the task */
+    data?: {[key: string]: string}
+    /** maximum number of attempts, default 3 */
+    attempts?: number
+    /** interval in milliseconds before retrying a failed attempt */
+    retryIntervalInMilliseconds?: number
+    /** maximum time in milliseconds an attempt may take, by default attempts do not time out */
+    timeoutInMilliseconds?: number
+    /** names of dependencies or tasks which must be ready before the task runs */
+    dependsOn?: string[]
+}
+
+/** Status of a startup task, reported as the 'details' of the task's health */
+export interface IStartupTaskStatus {
+    /** the state of the task */
+    state: StartupTaskState
+    /** the number of attempts made */
+    attempts: number
+    /** the maximum number of attempts */
+    maximumAttempts: number
+    /** when the first attempt started */
+    startedAt?: Date
+    /** when the task completed or failed */
+    finishedAt?: Date
+    /** the progress last reported by the task */
+    progress?: {[key: string]: unknown}
+    /** the error thrown by the last failed attempt */
+    error?: IDependencyCheckError
+}
+
+/**
+ * Creates a critical dependency for a one-shot startup task which gates readiness until it completes.  Each readiness
+ * check runs an attempt of the task until one succeeds, after which the task is ready and not run again.  Failed
+ * attempts are retried like dependency checks, up to 'attempts' times, after which readiness checks fail with a
+ * {StartupTaskError}.  Health checks report the task's {IStartupTaskStatus} without running it
+ * @param options - {IStartupTaskOptions}
+ * @throws {TypeError} if 'attempts' is not a positive integer
+ */
+export const createStartupTask = (options: IStartupTaskOptions): IDependency => {
+    const maximumAttempts = options.attempts ?? 3
+
+    if (!Number.isInteger(maximumAttempts) || maximumAttempts < 1)
+        throw new TypeError(`startup task '${options.name}' attempts must be a positive integer`)
+
+    const status:IStartupTaskStatus = { state: 'pending', attempts: 0, maximumAttempts }
+    let inFlight:Promise<boolean>
+    let failure:StartupTaskError
+
+    const runAttempt = async (): Promise<boolean> => {
+        const controller = new AbortController()
+        status.state = 'running'
+        status.attempts++
+        status.startedAt = status.startedAt ?? new Date()
+
+        try {
+            await runCheck(() => options.run({
+                attempt: status.attempts,
+                signal: controller.signal,
+                reportProgress: progress => {
+                    status.progress = progress
+                }
+            }), options.timeoutInMilliseconds)
+
+            status.state = 'completed'
+            status.finishedAt = new Date()
+            delete status.error
+            return true
+        } catch (err) {
+            if (err instanceof CheckTimeoutError)
+                controller.abort(err)
+
+            status.error = toDependencyCheckError(err)
+
+            if (status.attempts < maximumAttempts) {
+                status.state = 'pending'
+                throw err
+            }
+
+            status.state = 'failed'
+            status.finishedAt = new Date()
+            failure = new StartupTaskError(options.name, status.attempts, err)
+            throw failure
+        }
+    }
+
+    const isReady = (): Promise<boolean> => {
+        if (status.state === 'completed')
+            return Promise.resolve(true)
+
+        if (failure)
+            return Promise.reject(failure)
+
+        if (!inFlight)
+            inFlight = runAttempt().finally(() => {
+                inFlight = undefined
+            })
+
+        return inFlight
+    }
+
+    const isHealthy = async (): Promise<IDependencyStatus> => ({
+        healthy: status.state === 'completed',
+        details: { ...status }
+    })
+
+    return {
+        name: options.name,
+        data: { type: 'startupTask', ...(options.data ?? {}) },
+        critical: true,
+        isReady,
+        isHealthy,
+        retryIntervalInMilliseconds: options.retryIntervalInMilliseconds,
+        // attempts are timed out by the task itself so a timed out attempt is aborted and counted
+        checkTimeoutInMilliseconds: 0,
+        dependsOn: options.dependsOn
+    }
+}
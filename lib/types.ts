@@ -0,0 +1,513 @@
+import { NextFunction, Request, Response } from "express";
+import { IncomingMessage, ServerResponse } from "http";
+
+/** Logger interface */
+export interface ILogger {
+    /** Logs out a message */
+    log: (message: string) => void
+}
+
+/** Structured context logged alongside a message */
+export interface ILogContext {
+    /** the name of the dependency */
+    dependency?: string
+    /** indicates whether the dependency is critical */
+    critical?: boolean
+    /** informational data about the dependency, only included if 'logOutDependenciesDataOnFailure' is enabled */
+    data?: {[key: string]: string}
+    /** how long the check took in milliseconds */
+    durationInMilliseconds?: number
+    /** the error which occurred */
+    error?: Error
+    /** the readiness override which was set */
+    override?: IOverride
+    /** the state the circuit breaker of the dependency changed to */
+    circuitBreaker?: CircuitBreakerState
+}
+
+/** Leveled, structured logger interface */
+export interface IStructuredLogger {
+    /** Logs out a debug message */
+    debug: (message: string, context?: ILogContext) => void
+    /** Logs out an informational message */
+    info: (message: string, context?: ILogContext) => void
+    /** Logs out a warning message */
+    warn: (message: string, context?: ILogContext) => void
+    /** Logs out an error message */
+    error: (message: string, context?: ILogContext) => void
+}
+
+/** Details of a request rejected because the service is not ready */
+export interface INotReadyDetails {
+    /** the configured status code */
+    statusCode: number
+    /** the Retry-After value in seconds, undefined while draining as the service will not become ready again */
+    retryAfterInSeconds?: number
+    /** names of the critical dependencies which are not yet ready */
+    pendingDependencies: string[]
+    /** true if requests are rejected because the service is draining rather than waiting for dependencies */
+    draining: boolean
+}
+
+/** Path rule interface, matching a path pattern and/or HTTP methods */
+export interface IPathRule {
+    /** path pattern, all paths are matched if not defined */
+    path?: string | RegExp
+    /** HTTP methods to match, all methods are matched if not defined */
+    methods?: string[]
+}
+
+/**
+ * Matches requests by path.  Either an exact or glob path ('*' within a segment, '**' across segments, ':param' a
+ * single segment), a regular expression tested against the path, a {IPathRule} or a predicate.  Predicates are passed
+ * the node request as requests matched by the framework agnostic gates are not express requests
+ */
+export type PathMatcher = string | RegExp | IPathRule | ((req: IncomingMessage) => boolean)
+
+/** Configuration interface for the middleware */
+export interface IConfig {
+    /** interval in milliseconds in which to check if a dependency is ready, default is 2000 */
+    retryIntervalInMilliseconds?: number
+    /** maximum time in milliseconds to wait for all dependencies to be ready.  default 30000 */
+    maximumWaitTimeForServiceReadinessInMilliseconds?: number
+    /** paths to still route traffic to even if dependencies are not yet ready, default empty array */
+    whitelistedPaths?: PathMatcher[]
+    /** if defined only matching paths are rejected when dependencies are not ready, by default all paths are */
+    guardedPaths?: PathMatcher[]
+    /** status code returned for requests rejected because the service is not ready, default 503 */
+    notReadyStatusCode?: number
+    /** value of the Retry-After header of rejected requests, by default derived from 'retryIntervalInMilliseconds' */
+    retryAfterInSeconds?: number
+    /**
+     * how rejected requests are responded to, default 'status'
+     * - `status`: responds with the status code only
+     * - `negotiate`: responds with a JSON or plain text body listing pending critical dependencies depending on 'Accept'
+     * - function: a custom handler responsible for the whole response
+     */
+    notReadyResponse?: 'status' | 'negotiate' | ((req: Request, res: Response, details: INotReadyDetails) => void)
+    /** indicates whether dependency information should be logged out if dependencies fail to become ready */
+    logOutDependenciesDataOnFailure?: boolean
+    /** indicates whether critical dependencies should continue to be checked once the service is ready, default false */
+    continuousMonitoring?: boolean
+    /** interval in milliseconds in which to check critical dependencies once the service is ready, default 10000 */
+    monitoringIntervalInMilliseconds?: number
+    /** number of consecutive failed checks before a critical dependency is deemed not ready again, default 3 */
+    consecutiveFailuresBeforeNotReady?: number
+    /** action to take when critical dependencies do not become ready within the maximum wait time, default exit with code 1 */
+    onReadinessTimeout?: ReadinessTimeoutStrategy
+    /** maximum time in milliseconds to wait for a single 'isReady' or 'isHealthy' check, by default checks do not time out */
+    checkTimeoutInMilliseconds?: number
+    /** backoff policy used between readiness and health check retries, by default 'retryIntervalInMilliseconds' is used */
+    backoff?: IBackoffPolicy
+    /** number of attempts 'checkDependenciesHealth' makes for a dependency before reporting it unhealthy, default 1 */
+    healthCheckAttempts?: number
+    /** time in milliseconds a health check result is cached for and reused by 'checkDependenciesHealth', default 0 (not cached) */
+    healthCacheTtlInMilliseconds?: number
+    /** maximum time in milliseconds to wait for in-flight requests to complete when draining, default 30000 */
+    drainTimeoutInMilliseconds?: number
+    /** process signals which begin draining, e.g. ['SIGTERM', 'SIGINT'].  The process is not exited, close the server on 'serviceDrained' */
+    drainOnSignals?: NodeJS.Signals[]
+    /** recorder of readiness and dependency check metrics, e.g. created using 'createMetrics' */
+    metrics?: IMetricsRecorder
+    /** circuit breaker policy wrapping readiness and health checks, by default checks are not wrapped */
+    circuitBreaker?: ICircuitBreakerPolicy
+    /** how dependency data is redacted wherever it is logged or returned, false disables redaction */
+    redaction?: IRedactionOptions | false
+    /** number of readiness transitions kept per tracked dependency, default 50 */
+    historySize?: number
+    /** flap detection policy holding dependencies which flap not ready until stable, by default flapping is not detected */
+    flapDetection?: IFlapDetectionPolicy
+}
+
+/** Flap detection policy interface */
+export interface IFlapDetectionPolicy {
+    /** number of readiness transitions within the window after which a dependency is flapping, default 4 */
+    transitionThreshold?: number
+    /** window in milliseconds in which readiness transitions are counted, default 60000 */
+    windowInMilliseconds?: number
+    /** time in milliseconds a flapping dependency must pass every check for before it is ready again, default 30000 */
+    stableForInMilliseconds?: number
+}
+
+/** A readiness transition of a dependency */
+export interface IReadinessTransition {
+    /** indicates whether the dependency became ready or not ready */
+    ready: boolean
+    /** when the transition occurred */
+    timestamp: Date
+    /** why the transition occurred */
+    reason: string
+}
+
+/** Readiness history of a dependency */
+export interface IDependencyReadinessHistory {
+    /** the name of the dependency */
+    name: string
+    /** indicates whether the dependency is flapping and held not ready until stable */
+    flapping: boolean
+    /** readiness transitions, oldest first */
+    transitions: IReadinessTransition[]
+}
+
+/** Redaction options interface */
+export interface IRedactionOptions {
+    /** patterns of data keys whose values are redacted, default /passw(or)?d|pwd|secret|token|api[-_]?key|credential|private[-_]?key/i */
+    keyPatterns?: RegExp[]
+    /** indicates whether credentials are stripped from URLs within data values, default true */
+    stripUrlCredentials?: boolean
+    /** replacement for redacted values, default '[REDACTED]' */
+    censor?: string
+    /** custom redactor applied after the built in redaction, returns the data to log or return */
+    redactor?: (data: {[key: string]: string}, dependency: string) => {[key: string]: string}
+}
+
+/** Metrics recorder interface */
+export interface IMetricsRecorder {
+    /** records whether all critical dependencies are ready */
+    setServiceReady: (ready: boolean) => void
+    /** records the outcome and duration of a dependency readiness or health check */
+    observeCheck: (name: string, critical: boolean, healthy: boolean, durationInMilliseconds: number) => void
+}
+
+/** Exponential backoff policy interface */
+export interface IBackoffPolicy {
+    /** interval in milliseconds before the first retry, default is the retry interval */
+    initialIntervalInMilliseconds?: number
+    /** multiplier applied to the interval after each retry, default 2 */
+    multiplier?: number
+    /** maximum interval in milliseconds between retries, default 30000 */
+    maximumIntervalInMilliseconds?: number
+    /** fraction between 0 and 1 of the interval by which it is randomly varied, default 0 */
+    jitter?: number
+}
+
+/** Circuit breaker policy interface */
+export interface ICircuitBreakerPolicy {
+    /** number of consecutive failed checks after which the circuit opens, default 5 */
+    failureThreshold?: number
+    /** time in milliseconds checks are short-circuited for once the circuit opens, default 30000 */
+    coolDownInMilliseconds?: number
+}
+
+/**
+ * State of a circuit breaker
+ * - `closed`: checks are run
+ * - `open`: checks are short-circuited and fail with a {CircuitOpenError} until the cool-down expires
+ * - `halfOpen`: a single probing check is run, closing the circuit if it passes and opening it again if not
+ */
+export type CircuitBreakerState = 'closed' | 'open' | 'halfOpen'
+
+/** Circuit breaker status interface */
+export interface ICircuitBreakerStatus {
+    /** the state of the circuit breaker */
+    state: CircuitBreakerState
+    /** number of consecutive failed checks */
+    consecutiveFailures: number
+    /** when the circuit last opened, undefined if it has not */
+    openedAt?: Date
+    /** when checks will next be probed, only defined while the circuit is open */
+    nextAttemptAt?: Date
+}
+
+/** Payload of dependency readiness lifecycle events */
+export interface IDependencyEvent {
+    /** the name of the dependency */
+    name: string
+    /** informational data about the dependency */
+    data: {[key: string]: string}
+    /** indicates whether the dependency is critical */
+    critical: boolean
+    /** the number of checks made for the dependency, including this one */
+    attempt: number
+    /** how long the check took in milliseconds */
+    durationInMilliseconds: number
+    /** when the check completed */
+    timestamp: Date
+    /** the error thrown by the check, only set for 'dependencyCheckFailed' events */
+    error?: Error
+}
+
+/** Payload of service readiness lifecycle events */
+export interface IServiceEvent {
+    /** when the service readiness changed */
+    timestamp: Date
+}
+
+/** Outcome of draining the service */
+export interface IDrainResult {
+    /** indicates whether all in-flight requests completed before the drain timeout */
+    completed: boolean
+    /** number of requests still in flight when draining finished */
+    inFlightRequests: number
+}
+
+/** Payload of the 'serviceDrained' event */
+export interface IServiceDrainedEvent extends IServiceEvent, IDrainResult {
+}
+
+/** Payload of the 'readinessTimeout' event */
+export interface IReadinessTimeoutEvent extends IServiceEvent {
+    /** readiness state of each critical dependency at the time of the timeout */
+    dependencies: IDependencyReadinessState[]
+}
+
+/** Readiness lifecycle events emitted by a readiness controller */
+export interface IReadinessEvents {
+    /** a dependency check passed and the dependency is ready */
+    dependencyReady: (event: IDependencyEvent) => void
+    /** a dependency check completed but the dependency is not ready or healthy */
+    dependencyUnhealthy: (event: IDependencyEvent) => void
+    /** a dependency check threw an error or timed out */
+    dependencyCheckFailed: (event: IDependencyEvent) => void
+    /** all critical dependencies are ready */
+    serviceReady: (event: IServiceEvent) => void
+    /** the service is no longer ready as a critical dependency is not ready */
+    serviceNotReady: (event: IServiceEvent) => void
+    /** critical dependencies did not become ready within the maximum wait time */
+    readinessTimeout: (event: IReadinessTimeoutEvent) => void
+    /** the service began draining and is no longer ready */
+    serviceDraining: (event: IServiceEvent) => void
+    /** in-flight requests completed or the drain timeout expired */
+    serviceDrained: (event: IServiceDrainedEvent) => void
+}
+
+/** Readiness state of a critical dependency */
+export interface IDependencyReadinessState {
+    /** the name of the dependency */
+    name: string
+    /** informational data about the dependency */
+    data: {[key: string]: string}
+    /** indicates whether the dependency is ready */
+    ready: boolean
+}
+
+/**
+ * Action to take when critical dependencies do not become ready within the maximum wait time
+ * - `exit`: exits the process with the given code, default 1
+ * - `reject`: stops checking readiness and rejects any pending `whenReady` promises
+ * - `retry`: stays not ready and keeps checking until critical dependencies become ready
+ * - function: stops checking readiness and calls the function with the state of each critical dependency
+ */
+export type ReadinessTimeoutStrategy =
+    | { action: 'exit', exitCode?: number }
+    | { action: 'reject' }
+    | { action: 'retry' }
+    | ((dependencies: IDependencyReadinessState[]) => void)
+
+/** Dependency interface */
+export interface IDependency {
+    /** the name of the dependency */
+    name: string
+    /** informational data about the dependency */
+    data: {[key: string]: string}
+    /** indicates whether the dependency is ready */
+    isReady: () => Promise<boolean>
+    /** indicates whether the dependency is healthy, optionally with detail about its status */
+    isHealthy?: () => Promise<boolean | IDependencyStatus>
+    /** indicates whether the dependency is critical */
+    critical: boolean
+    /** interval in milliseconds in which to check if a dependency is ready, default is 2000 */
+    retryIntervalInMilliseconds?: number
+    /** maximum time in milliseconds to wait for a single 'isReady' or 'isHealthy' check, overrides the configured value */
+    checkTimeoutInMilliseconds?: number
+    /** backoff policy used between retries, overrides the configured value */
+    backoff?: IBackoffPolicy
+    /** time in milliseconds a health check result is cached for, overrides the configured value */
+    healthCacheTtlInMilliseconds?: number
+    /** names of dependencies which must be ready before this dependency is checked */
+    dependsOn?: string[]
+    /** circuit breaker policy wrapping the checks of the dependency, overrides the configured value */
+    circuitBreaker?: ICircuitBreakerPolicy
+    /** keys of data which are internal only, omitted wherever data is logged or returned */
+    internalDataKeys?: string[]
+}
+
+/** Dependency status interface, which 'isHealthy' may resolve to instead of a boolean */
+export interface IDependencyStatus {
+    /** indicates whether the dependency is healthy */
+    healthy: boolean
+    /** additional detail about the status of the dependency, e.g. replication lag */
+    details?: {[key: string]: unknown}
+}
+
+/** Dependency check error interface */
+export interface IDependencyCheckError {
+    /** the error message */
+    message: string
+    /** the name of the error type, e.g. 'CheckTimeoutError' */
+    type: string
+}
+
+/** Dependency tree node interface */
+export interface IDependencyTreeNode {
+    /** the name of the dependency */
+    name: string
+    /** the dependencies this dependency depends on */
+    dependsOn: IDependencyTreeNode[]
+}
+
+/** Dependencies Health interface */
+export interface IDependenciesHealth {
+    /** indicates whether all dependencies are healthy */
+    allDependenciesHealthy: boolean
+    /** indicates whether all critical dependencies are healthy */
+    allCriticalDependenciesHealthy: boolean
+    /** indicates whether all critical dependencies are healthy but a non-critical dependency is not */
+    degraded: boolean
+    /** when the health result was produced */
+    timestamp: Date
+    /** the override of the service readiness, undefined if not overridden */
+    override?: IOverride
+    /** health information about all dependencies */
+    dependencies: IDependencyHealth[]
+    /** the dependency tree, only defined if dependencies declare 'dependsOn' */
+    dependencyTree?: IDependencyTreeNode[]
+}
+
+/** Overridden readiness state */
+export type OverrideState = 'ready' | 'notReady'
+
+/** Readiness override interface */
+export interface IOverride {
+    /** the overridden readiness state */
+    state: OverrideState
+    /** why the readiness is overridden */
+    reason: string
+    /** when the override was set */
+    setAt: Date
+    /** when the override expires, undefined if it does not expire */
+    expiresAt?: Date
+}
+
+/** Active readiness overrides of a service and its dependencies */
+export interface IOverrides {
+    /** the override of the service readiness, undefined if not overridden */
+    service?: IOverride
+    /** overrides of dependencies keyed by dependency name */
+    dependencies: {[name: string]: IOverride}
+}
+
+/** Health check options interface */
+export interface IHealthCheckOptions {
+    /** indicates whether cached results should be ignored and a fresh check performed */
+    fresh?: boolean
+    /** indicates whether the readiness transitions of tracked dependencies should be included */
+    includeHistory?: boolean
+}
+
+/** Dependency health interface */
+export interface IDependencyHealth {
+    /** the name of the dependency */
+    name: string
+    /** informational data about the dependency */
+    data: {[key: string]: string}
+    /** indicates whether the dependency and its prerequisites are healthy using 'isHealthy' if defined otherwise 'isReady' */
+    healthy: boolean
+    /** indicates whether the dependency is critical */
+    critical: boolean
+    /** when the health check result was produced, earlier than the request if the result was cached */
+    lastCheckedAt: Date
+    /** age in milliseconds of the health check result */
+    ageInMilliseconds: number
+    /** how long the health check took in milliseconds */
+    latencyInMilliseconds: number
+    /** when the dependency last passed a health check, undefined if it has not */
+    lastSuccessAt?: Date
+    /** when the dependency last failed a health check, undefined if it has not */
+    lastFailureAt?: Date
+    /** number of consecutive failed health checks */
+    consecutiveFailures: number
+    /** the error thrown by the health check, undefined if the check did not throw */
+    error?: IDependencyCheckError
+    /** status detail returned by 'isHealthy', undefined if it returned a boolean */
+    details?: {[key: string]: unknown}
+    /** the override of the dependency readiness which 'healthy' reflects, undefined if not overridden */
+    override?: IOverride
+    /** the status of the circuit breaker of the dependency, undefined if no circuit breaker is configured */
+    circuitBreaker?: ICircuitBreakerStatus
+    /** true if the dependency is flapping and held not ready until stable, otherwise undefined */
+    flapping?: boolean
+    /** readiness transitions of the dependency, oldest first, only defined if requested and the dependency is tracked */
+    history?: IReadinessTransition[]
+    /** names of the dependencies this dependency depends on, only defined if dependencies declare 'dependsOn' */
+    dependsOn?: string[]
+    /** names of the prerequisites which are not healthy, only defined if dependencies declare 'dependsOn' */
+    blockedBy?: string[]
+}
+
+/** Readiness middleware */
+export interface ReadinessMiddleware {
+    /** middleware function */
+    (req: Request, res: Response, next: NextFunction): void
+}
+
+/** Result of waiting for critical dependencies to become ready */
+export interface IReadinessResult {
+    /** readiness state of each critical dependency */
+    dependencies: IDependencyReadinessState[]
+    /** how long it took for critical dependencies to become ready */
+    durationInMilliseconds: number
+}
+
+/** Response sent by a gate for a request rejected because the service is not ready */
+export interface INotReadyResponse {
+    /** the status code */
+    statusCode: number
+    /** the response headers */
+    headers: {[name: string]: string}
+    /** the response body */
+    body: string
+}
+
+/**
+ * Framework agnostic readiness gate for a node http server.  Responds to and returns false for requests which are
+ * rejected as the service is not ready, otherwise returns true
+ */
+export interface ReadinessGate {
+    /** gate function */
+    (req: IncomingMessage, res: ServerResponse): boolean
+}
+
+/** The parts of a Koa context used by the readiness middleware */
+export interface IKoaContext {
+    /** the node request */
+    req: IncomingMessage
+    /** the node response */
+    res: ServerResponse
+    /** the response status code */
+    status: number
+    /** the response body */
+    body: unknown
+    /** sets a response header */
+    set: (name: string, value: string) => void
+}
+
+/** Koa readiness middleware */
+export interface KoaReadinessMiddleware {
+    /** middleware function */
+    (ctx: IKoaContext, next: () => Promise<unknown>): Promise<void>
+}
+
+/** The parts of a Fastify request used by the readiness hook */
+export interface IFastifyRequest {
+    /** the node request */
+    raw: IncomingMessage
+}
+
+/** The parts of a Fastify reply used by the readiness hook */
+export interface IFastifyReply {
+    /** the node response */
+    raw: ServerResponse
+    /** sets the status code */
+    code: (statusCode: number) => IFastifyReply
+    /** sets response headers */
+    headers: (headers: {[name: string]: string}) => IFastifyReply
+    /** sends the response */
+    send: (payload?: unknown) => IFastifyReply
+}
+
+/** Fastify 'onRequest' readiness hook */
+export interface FastifyReadinessHook {
+    /** hook function */
+    (request: IFastifyRequest, reply: IFastifyReply, done: () => void): void
+}
@@ -0,0 +1,174 @@
+import fs from "fs";
+import http from "http";
+import net from "net";
+import os from "os";
+import path from "path";
+import { AddressInfo } from "net";
+import { checkDependenciesHealth, checkers } from "../lib";
+
+describe('checkers', () => {
+    describe('httpChecker', () => {
+        let server: http.Server
+        let baseUrl: string
+
+        beforeAll(async () => {
+            server = http.createServer((req, res) => {
+                if (req.url === '/health') {
+                    res.writeHead(200)
+                    res.end('{"status":"UP"}')
+                    return
+                }
+
+                if (req.url === '/slow')
+                    return
+
+                res.writeHead(500)
+                res.end('error')
+            })
+            await new Promise<void>(resolve => server.listen(0, '127.0.0.1', () => resolve()))
+            baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`
+        })
+
+        afterAll(async () => {
+            server.closeAllConnections?.()
+            await new Promise(resolve => server.close(resolve))
+        })
+
+        it('populates dependency data', () => {
+            const dependency = checkers.httpChecker({ name: 'api', url: `${baseUrl}/health`, data: { team: 'payments' } })
+
+            expect(dependency.name).toEqual('api')
+            expect(dependency.critical).toEqual(true)
+            expect(dependency.data).toEqual({ url: `${baseUrl}/health`, method: 'GET', team: 'payments' })
+        })
+
+        it('is ready when the status and body are as expected', async () => {
+            const dependency = checkers.httpChecker({ name: 'api', url: `${baseUrl}/health`, expectedBody: /"status":"UP"/ })
+
+            expect(await dependency.isReady()).toEqual(true)
+        })
+
+        it('is not ready when the status is not as expected', async () => {
+            const dependency = checkers.httpChecker({ name: 'api', url: `${baseUrl}/error` })
+
+            expect(await dependency.isReady()).toEqual(false)
+        })
+
+        it('is ready when an expected non 2xx status is returned', async () => {
+            const dependency = checkers.httpChecker({ name: 'api', url: `${baseUrl}/error`, expectedStatus: [500, 503], expectedBody: 'error' })
+
+            expect(await dependency.isReady()).toEqual(true)
+        })
+
+        it('is not ready when the body is not as expected', async () => {
+            const dependency = checkers.httpChecker({ name: 'api', url: `${baseUrl}/health`, expectedBody: body => body.includes('DOWN') })
+
+            expect(await dependency.isReady()).toEqual(false)
+        })
+
+        it('rejects when the request times out', async () => {
+            const dependency = checkers.httpChecker({ name: 'api', url: `${baseUrl}/slow`, timeoutInMilliseconds: 20 })
+
+            await expect(dependency.isReady()).rejects.toThrow(`request to '${baseUrl}/slow' timed out`)
+        })
+
+        it('does not expose URL credentials when the request times out', async () => {
+            const url = `${baseUrl.replace('://', '://admin:s3cret@')}/slow`
+            const dependency = checkers.httpChecker({ name: 'api', url, timeoutInMilliseconds: 20 })
+
+            const health = await checkDependenciesHealth([dependency])
+
+            expect(health.dependencies[0].error.message).toEqual(`request to '${baseUrl.replace('://', '://[REDACTED]@')}/slow' timed out`)
+            expect(JSON.stringify(health)).not.toContain('s3cret')
+        })
+    })
+
+    describe('tcpChecker', () => {
+        it('is ready when a connection can be established', async () => {
+            const server = net.createServer(socket => socket.end())
+            await new Promise<void>(resolve => server.listen(0, '127.0.0.1', () => resolve()))
+            const port = (server.address() as AddressInfo).port
+
+            try {
+                const dependency = checkers.tcpChecker({ name: 'tcp', host: '127.0.0.1', port })
+
+                expect(dependency.data).toEqual({ host: '127.0.0.1', port: String(port) })
+                expect(await dependency.isReady()).toEqual(true)
+            } finally {
+                await new Promise(resolve => server.close(resolve))
+            }
+        })
+
+        it('rejects when a connection cannot be established', async () => {
+            const server = net.createServer()
+            await new Promise<void>(resolve => server.listen(0, '127.0.0.1', () => resolve()))
+            const port = (server.address() as AddressInfo).port
+            await new Promise(resolve => server.close(resolve))
+
+            const dependency = checkers.tcpChecker({ name: 'tcp', host: '127.0.0.1', port })
+
+            await expect(dependency.isReady()).rejects.toThrow()
+        })
+    })
+
+    describe('dnsChecker', () => {
+        it('is ready when the hostname resolves', async () => {
+            const dependency = checkers.dnsChecker({ name: 'dns', hostname: 'localhost', critical: false })
+
+            expect(dependency.critical).toEqual(false)
+            expect(dependency.data).toEqual({ hostname: 'localhost' })
+            expect(await dependency.isReady()).toEqual(true)
+        })
+    })
+
+    describe('fileChecker', () => {
+        it('is ready only when the file exists', async () => {
+            const directory = fs.mkdtempSync(path.join(os.tmpdir(), 'readiness-'))
+            const filePath = path.join(directory, 'ready')
+
+            try {
+                const dependency = checkers.fileChecker({ name: 'file', path: filePath })
+
+                expect(dependency.data).toEqual({ path: filePath })
+                expect(await dependency.isReady()).toEqual(false)
+
+                fs.writeFileSync(filePath, '')
+                expect(await dependency.isReady()).toEqual(true)
+            } finally {
+                fs.rmSync(directory, { recursive: true, force: true })
+            }
+        })
+    })
+
+    describe('pingChecker', () => {
+        it('uses ping when the client has a ping function', async () => {
+            const dependency = checkers.pingChecker({ name: 'redis', client: { ping: () => Promise.resolve('PONG') } })
+
+            expect(dependency.data).toEqual({ check: 'ping' })
+            expect(await dependency.isReady()).toEqual(true)
+        })
+
+        it('uses query when the client does not have a ping function', async () => {
+            const queries: string[] = []
+            const dependency = checkers.pingChecker({
+                name: 'pg',
+                client: {
+                    query: (sql: string) => {
+                        queries.push(sql)
+                        return Promise.resolve({ rows: [{ '?column?': 1 }] })
+                    }
+                }
+            })
+
+            expect(await dependency.isReady()).toEqual(true)
+            expect(queries).toEqual(['SELECT 1'])
+            expect(dependency.data).toEqual({ check: 'query', query: 'SELECT 1' })
+        })
+
+        it('is not ready when ping resolves to false', async () => {
+            const dependency = checkers.pingChecker({ name: 'mongo', client: { ping: () => Promise.resolve(false) } })
+
+            expect(await dependency.isReady()).toEqual(false)
+        })
+    })
+})
@@ -0,0 +1,49 @@
+import { getBackoffDelayInMilliseconds, runCheck } from "../lib/checks";
+import { CheckTimeoutError } from "../lib";
+
+describe('checks', () => {
+    describe('runCheck', () => {
+        it('returns the result of the check', async () => {
+            expect(await runCheck(() => Promise.resolve(true), 50)).toEqual(true)
+        })
+
+        it('rejects with a CheckTimeoutError when the check does not complete in time', async () => {
+            const check = () => new Promise<boolean>(resolve => setTimeout(() => resolve(true), 200))
+
+            const error = await runCheck(check, 10).catch(err => err)
+
+            expect(error).toBeInstanceOf(CheckTimeoutError)
+            expect(error.message).toEqual('check timed out after 10 milliseconds')
+        })
+
+        it('does not time out when no timeout is defined', async () => {
+            const check = () => new Promise<boolean>(resolve => setTimeout(() => resolve(true), 20))
+
+            expect(await runCheck(check)).toEqual(true)
+        })
+    })
+
+    describe('getBackoffDelayInMilliseconds', () => {
+        const policy = {
+            initialIntervalInMilliseconds: 100,
+            multiplier: 2,
+            maximumIntervalInMilliseconds: 500,
+            jitter: 0
+        }
+
+        it('increases the delay exponentially up to the maximum interval', () => {
+            const delays = [1, 2, 3, 4, 5].map(attempt => getBackoffDelayInMilliseconds(policy, attempt))
+
+            expect(delays).toEqual([100, 200, 400, 500, 500])
+        })
+
+        it('varies the delay by the jitter fraction', () => {
+            for (let i = 0; i < 20; i++) {
+                const delay = getBackoffDelayInMilliseconds({ ...policy, jitter: 0.5 }, 2)
+
+                expect(delay).toBeGreaterThanOrEqual(100)
+                expect(delay).toBeLessThanOrEqual(300)
+            }
+        })
+    })
+})
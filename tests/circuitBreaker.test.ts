@@ -0,0 +1,146 @@
+import { CircuitBreaker } from "../lib/circuitBreaker";
+import { checkDependenciesHealthWith } from "../lib/health";
+import { CircuitOpenError, createReadinessController, IDependency, IStructuredLogger, ReadinessController } from "../lib";
+import { sleep, waitUntil } from "./helpers";
+
+describe('circuit breaker', () => {
+    const createLogger = (): IStructuredLogger => ({
+        debug: jest.fn(),
+        info: jest.fn(),
+        warn: jest.fn(),
+        error: jest.fn()
+    })
+
+    it('opens after consecutive failures and short-circuits checks until the cool-down expires', async () => {
+        const logger = createLogger()
+        const breaker = new CircuitBreaker('database', { failureThreshold: 2, coolDownInMilliseconds: 60000 })
+        const check = jest.fn(() => Promise.resolve(false))
+
+        await breaker.execute(check, logger)
+        await expect(breaker.execute(() => Promise.reject(new Error('connection refused')), logger)).rejects.toThrow('connection refused')
+
+        expect(breaker.getStatus()).toEqual({
+            state: 'open',
+            consecutiveFailures: 2,
+            openedAt: expect.any(Date),
+            nextAttemptAt: expect.any(Date)
+        })
+        expect(logger.warn).toHaveBeenCalledWith(
+            "Circuit breaker for dependency 'database' opened after 2 consecutive failures, checks are short-circuited for 60000 milliseconds",
+            { dependency: 'database', circuitBreaker: 'open' })
+
+        await expect(breaker.execute(check, logger)).rejects.toBeInstanceOf(CircuitOpenError)
+        expect(check).toHaveBeenCalledTimes(1)
+        expect(logger.debug).toHaveBeenCalledWith("Skipped checking dependency 'database' as its circuit breaker is open", { dependency: 'database', circuitBreaker: 'open' })
+    })
+
+    it('closes when the half-open probe passes and lets a single probe through at a time', async () => {
+        const logger = createLogger()
+        const breaker = new CircuitBreaker('database', { failureThreshold: 1, coolDownInMilliseconds: 20 })
+        await breaker.execute(() => Promise.resolve(false))
+        await sleep(30)
+
+        const probe = breaker.execute(async () => {
+            await sleep(10)
+            return { healthy: true }
+        }, logger)
+
+        expect(breaker.getStatus().state).toEqual('halfOpen')
+        await expect(breaker.execute(() => Promise.resolve(true))).rejects.toBeInstanceOf(CircuitOpenError)
+        await expect(probe).resolves.toEqual({ healthy: true })
+        expect(breaker.getStatus()).toEqual({ state: 'closed', consecutiveFailures: 0, openedAt: expect.any(Date) })
+        expect(logger.info).toHaveBeenCalledWith("Circuit breaker for dependency 'database' closed", { dependency: 'database', circuitBreaker: 'closed' })
+    })
+
+    it('abandons a half-open probe which has not settled within the cool-down', async () => {
+        const breaker = new CircuitBreaker('database', { failureThreshold: 1, coolDownInMilliseconds: 20 })
+        await breaker.execute(() => Promise.resolve(false))
+        await sleep(30)
+
+        breaker.execute(() => new Promise<boolean>(() => undefined))
+        const error = await breaker.execute(() => Promise.resolve(true)).catch(err => err)
+
+        expect(error).toBeInstanceOf(CircuitOpenError)
+        expect(error.nextAttemptAt.getTime()).toBeGreaterThan(Date.now())
+        expect(breaker.getStatus()).toMatchObject({ state: 'halfOpen', nextAttemptAt: error.nextAttemptAt })
+
+        await sleep(30)
+
+        await expect(breaker.execute(() => Promise.resolve(true))).resolves.toEqual(true)
+        expect(breaker.getStatus().state).toEqual('closed')
+    })
+
+    it('opens again when the half-open probe fails', async () => {
+        const breaker = new CircuitBreaker('database', { failureThreshold: 3, coolDownInMilliseconds: 20 })
+        for (let i = 0; i < 3; i++)
+            await breaker.execute(() => Promise.resolve(false))
+        await sleep(30)
+
+        await breaker.execute(() => Promise.resolve(false))
+
+        expect(breaker.getStatus()).toMatchObject({ state: 'open', consecutiveFailures: 4 })
+    })
+
+    it('reports the breaker state in health output and short-circuits health checks', async () => {
+        let checks = 0
+        const dependency:IDependency = {
+            data: {},
+            critical: true,
+            isReady: () => {
+                checks++
+                return Promise.reject(new Error('connection refused'))
+            },
+            name: 'database',
+            circuitBreaker: { failureThreshold: 2, coolDownInMilliseconds: 60000 }
+        }
+
+        await checkDependenciesHealthWith([dependency])
+        await checkDependenciesHealthWith([dependency])
+        const health = await checkDependenciesHealthWith([dependency])
+
+        expect(checks).toEqual(2)
+        expect(health.dependencies[0]).toMatchObject({
+            healthy: false,
+            error: { type: 'CircuitOpenError' },
+            circuitBreaker: { state: 'open', consecutiveFailures: 2 }
+        })
+    })
+
+    describe('readiness controller', () => {
+        let controller: ReadinessController
+
+        afterEach(() => {
+            controller?.stop()
+        })
+
+        it('short-circuits readiness retries while the circuit is open', async () => {
+            let checks = 0
+            let databaseUp = false
+            const logger = createLogger()
+            controller = createReadinessController([
+                {
+                    data: {},
+                    critical: true,
+                    isReady: () => {
+                        checks++
+                        return Promise.resolve(databaseUp)
+                    },
+                    name: 'database',
+                    retryIntervalInMilliseconds: 10
+                }
+            ], { circuitBreaker: { failureThreshold: 3, coolDownInMilliseconds: 300 } }, logger)
+
+            await waitUntil(() => expect(checks).toEqual(3))
+            await sleep(50)
+
+            expect(checks).toEqual(3)
+            expect(logger.error).not.toHaveBeenCalled()
+
+            databaseUp = true
+            await waitUntil(() => expect(controller.isReady()).toEqual(true))
+
+            expect(checks).toEqual(4)
+            expect((await controller.checkHealth()).dependencies[0].circuitBreaker).toEqual({ state: 'closed', consecutiveFailures: 0, openedAt: expect.any(Date) })
+        })
+    })
+})
@@ -0,0 +1,113 @@
+import express from "express";
+import { Server } from "http";
+import { AddressInfo } from "net";
+import { createReadinessController, IDependency, IServiceDrainedEvent, ReadinessController } from "../lib";
+import { sleep, spyOnExit, waitUntil } from "./helpers";
+
+describe('draining', () => {
+    let server: Server
+    let controller: ReadinessController
+
+    const listen = (app: express.Express): Promise<string> => new Promise(resolve => {
+        server = app.listen(0, () => resolve(`http://127.0.0.1:${(server.address() as AddressInfo).port}`))
+    })
+
+    const dependencies: IDependency[] = [
+        {
+            data: {},
+            critical: true,
+            isReady: () => Promise.resolve(true),
+            name: 'dependency',
+            retryIntervalInMilliseconds: 10
+        }
+    ]
+
+    const createApp = (): express.Express => {
+        const app = express()
+        app.use(controller.middleware())
+        app.use(controller.healthRouter())
+        app.get('/slow', async (req, res) => {
+            await sleep(100)
+            res.sendStatus(200)
+        })
+        app.get('/data', (req, res) => res.sendStatus(200))
+
+        return app
+    }
+
+    afterEach(async () => {
+        controller?.stop()
+        controller = undefined
+        await new Promise(resolve => server ? server.close(resolve) : resolve(undefined))
+        server = undefined
+    })
+
+    it('becomes not ready and resolves once in-flight requests complete', async () => {
+        controller = createReadinessController(dependencies)
+        const baseUrl = await listen(createApp())
+        await waitUntil(() => expect(controller.isReady()).toEqual(true))
+        const drainedEvents: IServiceDrainedEvent[] = []
+        controller.on('serviceDrained', event => drainedEvents.push(event))
+
+        const slow = fetch(`${baseUrl}/slow`)
+        await sleep(20)
+        const drained = controller.beginDraining(1000)
+
+        expect(controller.isReady()).toEqual(false)
+        expect(controller.isDraining()).toEqual(true)
+        expect((await fetch(`${baseUrl}/ready`)).status).toEqual(503)
+        expect((await fetch(`${baseUrl}/data`)).status).toEqual(503)
+
+        expect(await drained).toEqual({ completed: true, inFlightRequests: 0 })
+        expect((await slow).status).toEqual(200)
+        expect(drainedEvents).toEqual([{ completed: true, inFlightRequests: 0, timestamp: expect.any(Date) }])
+    })
+
+    it('resolves with the in-flight requests once the timeout expires', async () => {
+        controller = createReadinessController(dependencies)
+        const baseUrl = await listen(createApp())
+        await waitUntil(() => expect(controller.isReady()).toEqual(true))
+
+        const slow = fetch(`${baseUrl}/slow`)
+        await sleep(20)
+
+        expect(await controller.beginDraining(10)).toEqual({ completed: false, inFlightRequests: 1 })
+        await slow
+    })
+
+    it('drains without exiting the process when a configured signal is received', async () => {
+        const exit = spyOnExit()
+
+        try {
+            controller = createReadinessController(dependencies, { drainOnSignals: ['SIGUSR2'] })
+            await waitUntil(() => expect(controller.isReady()).toEqual(true))
+            const drained = new Promise<IServiceDrainedEvent>(resolve => controller.once('serviceDrained', resolve))
+
+            process.emit('SIGUSR2', 'SIGUSR2')
+
+            expect(await drained).toEqual({ completed: true, inFlightRequests: 0, timestamp: expect.any(Date) })
+            expect(controller.isDraining()).toEqual(true)
+            expect(exit).not.toHaveBeenCalled()
+            expect(process.listenerCount('SIGUSR2')).toEqual(0)
+        } finally {
+            exit.mockRestore()
+        }
+    })
+
+    it('keeps draining on signals after the readiness timeout expires', async () => {
+        const readinessTimeout = jest.fn()
+        controller = createReadinessController([{ ...dependencies[0], isReady: () => Promise.resolve(false) }], {
+            drainOnSignals: ['SIGUSR2'],
+            maximumWaitTimeForServiceReadinessInMilliseconds: 20,
+            onReadinessTimeout: readinessTimeout
+        })
+
+        await waitUntil(() => expect(readinessTimeout).toHaveBeenCalled())
+
+        expect(process.listenerCount('SIGUSR2')).toEqual(1)
+
+        controller.stop()
+
+        expect(process.listenerCount('SIGUSR2')).toEqual(0)
+    })
+})
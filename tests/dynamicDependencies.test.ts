@@ -0,0 +1,110 @@
+import {
+    addDependency,
+    checkDependenciesHealth,
+    createReadinessController,
+    createReadinessMiddleware,
+    DependencyGraphError,
+    IDependency,
+    ReadinessController,
+    removeDependency,
+    stopCheckingReadiness
+} from "../lib";
+import { sleep, waitUntil } from "./helpers";
+
+describe('dynamic dependencies', () => {
+    let controller: ReadinessController
+
+    const createDependency = (name: string, isReady: () => Promise<boolean>, critical: boolean = true, dependsOn?: string[]): IDependency => ({
+        data: {},
+        critical,
+        isReady,
+        name,
+        retryIntervalInMilliseconds: 10,
+        dependsOn
+    })
+
+    afterEach(() => {
+        controller?.stop()
+        controller = undefined
+        stopCheckingReadiness()
+    })
+
+    it('re-evaluates readiness when a critical dependency is added', async () => {
+        let tenantReady = false
+        controller = createReadinessController([createDependency('database', () => Promise.resolve(true))])
+        await waitUntil(() => expect(controller.isReady()).toEqual(true))
+
+        controller.addDependency(createDependency('tenant-database', () => Promise.resolve(tenantReady)))
+
+        expect(controller.isReady()).toEqual(false)
+        expect(controller.getPendingDependencies()).toEqual(['tenant-database'])
+
+        tenantReady = true
+        await waitUntil(() => expect(controller.isReady()).toEqual(true))
+        expect((await controller.checkHealth()).dependencies.map(x => x.name)).toEqual(['database', 'tenant-database'])
+    })
+
+    it('stops tracking a removed dependency and re-evaluates readiness', async () => {
+        let queueChecks = 0
+        controller = createReadinessController([
+            createDependency('database', () => Promise.resolve(true)),
+            createDependency('queue', () => {
+                queueChecks++
+                return Promise.resolve(false)
+            })
+        ])
+        await waitUntil(() => expect(queueChecks).toBeGreaterThan(0))
+
+        expect(controller.removeDependency('queue')).toEqual(true)
+        await waitUntil(() => expect(controller.isReady()).toEqual(true))
+
+        const queueChecksWhenRemoved = queueChecks
+        await sleep(50)
+
+        expect(queueChecks).toEqual(queueChecksWhenRemoved)
+        expect(controller.getDependencies().map(x => x.name)).toEqual(['database'])
+        expect(controller.removeDependency('queue')).toEqual(false)
+    })
+
+    it('rejects duplicate dependencies and the removal of prerequisites', () => {
+        controller = createReadinessController([
+            createDependency('database', () => Promise.resolve(true)),
+            createDependency('cache', () => Promise.resolve(true), true, ['database'])
+        ])
+
+        expect(() => controller.addDependency(createDependency('database', () => Promise.resolve(true)))).toThrow(DependencyGraphError)
+        expect(() => controller.addDependency(createDependency('search', () => Promise.resolve(true), false, ['unknown']))).toThrow(DependencyGraphError)
+        expect(() => controller.removeDependency('database')).toThrow("dependency 'database' is a prerequisite of 'cache'")
+    })
+
+    it('rejects added dependencies once readiness is no longer checked', async () => {
+        const readinessTimeout = jest.fn()
+        controller = createReadinessController([createDependency('database', () => Promise.resolve(false))], {
+            maximumWaitTimeForServiceReadinessInMilliseconds: 20,
+            onReadinessTimeout: readinessTimeout
+        })
+        await waitUntil(() => expect(readinessTimeout).toHaveBeenCalled())
+
+        controller.removeDependency('database')
+
+        expect(controller.isReady()).toEqual(true)
+        expect(() => controller.addDependency(createDependency('cache', () => Promise.resolve(true))))
+            .toThrow("dependency 'cache' cannot be added as readiness is no longer checked")
+        expect(controller.getDependencies()).toEqual([])
+        expect(controller.isReady()).toEqual(true)
+    })
+
+    it('keeps checkDependenciesHealth in sync with the dependencies of the middleware', async () => {
+        const dependencies = [createDependency('database', () => Promise.resolve(true))]
+        createReadinessMiddleware(dependencies)
+
+        addDependency(createDependency('queue', () => Promise.resolve(true), false))
+        const added = await checkDependenciesHealth(dependencies)
+        removeDependency('database')
+        const removed = await checkDependenciesHealth(dependencies)
+
+        expect(added.dependencies.map(x => x.name)).toEqual(['database', 'queue'])
+        expect(removed.dependencies.map(x => x.name)).toEqual(['queue'])
+        expect(dependencies.map(x => x.name)).toEqual(['database'])
+    })
+})
@@ -0,0 +1,104 @@
+import express from "express";
+import { Server } from "http";
+import { AddressInfo } from "net";
+import { createReadinessController, IDependenciesHealth, ReadinessController, toActuatorHealth, toHealthJson } from "../lib";
+import { waitUntil } from "./helpers";
+
+describe('formatters', () => {
+    const lastCheckedAt = new Date('2024-01-01T00:00:00.000Z')
+    const health: IDependenciesHealth = {
+        allDependenciesHealthy: false,
+        allCriticalDependenciesHealthy: true,
+        degraded: true,
+        timestamp: lastCheckedAt,
+        dependencies: [
+            {
+                name: 'database',
+                data: {},
+                healthy: true,
+                critical: true,
+                lastCheckedAt,
+                ageInMilliseconds: 0,
+                latencyInMilliseconds: 12,
+                consecutiveFailures: 0
+            },
+            {
+                name: 'search',
+                data: {},
+                healthy: false,
+                critical: false,
+                lastCheckedAt,
+                ageInMilliseconds: 0,
+                latencyInMilliseconds: 30,
+                consecutiveFailures: 2,
+                error: { message: 'connection refused', type: 'Error' }
+            }
+        ]
+    }
+
+    it('converts health into the application/health+json format', () => {
+        expect(toHealthJson(health)).toEqual({
+            status: 'warn',
+            checks: {
+                'database:responseTime': [
+                    { componentId: 'database', componentType: 'component', status: 'pass', observedValue: 12, observedUnit: 'ms', time: '2024-01-01T00:00:00.000Z' }
+                ],
+                'search:responseTime': [
+                    { componentId: 'search', componentType: 'component', status: 'warn', observedValue: 30, observedUnit: 'ms', time: '2024-01-01T00:00:00.000Z', output: 'connection refused' }
+                ]
+            }
+        })
+        expect(toHealthJson({ ...health, allCriticalDependenciesHealthy: false, degraded: false }).status).toEqual('fail')
+    })
+
+    it('converts health into the Spring Boot Actuator style format', () => {
+        const actuatorHealth = toActuatorHealth(health)
+
+        expect(actuatorHealth.status).toEqual('UP')
+        expect(actuatorHealth.components.database).toEqual({
+            status: 'UP',
+            details: { data: {}, critical: true, lastCheckedAt, ageInMilliseconds: 0, latencyInMilliseconds: 12, consecutiveFailures: 0 }
+        })
+        expect(actuatorHealth.components.search.status).toEqual('DOWN')
+        expect(actuatorHealth.components.search.details.error).toEqual({ message: 'connection refused', type: 'Error' })
+    })
+
+    describe('health router', () => {
+        let server: Server
+        let controller: ReadinessController
+
+        afterEach(async () => {
+            controller.stop()
+            await new Promise(resolve => server.close(resolve))
+        })
+
+        it('serves the selected format from the readiness and health endpoints', async () => {
+            controller = createReadinessController([
+                {
+                    data: {},
+                    critical: true,
+                    isReady: () => Promise.resolve(true),
+                    name: 'database',
+                    retryIntervalInMilliseconds: 10
+                }
+            ])
+            const app = express()
+            app.use('/ietf', controller.healthRouter({ mountPath: '/ietf', format: 'health+json' }))
+            app.use('/actuator', controller.healthRouter({ mountPath: '/actuator', format: 'actuator' }))
+            await new Promise<void>(resolve => {
+                server = app.listen(0, () => resolve())
+            })
+            const baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`
+            await waitUntil(() => expect(controller.isReady()).toEqual(true))
+
+            const ietfHealth = await fetch(`${baseUrl}/ietf/health`)
+            const ietfReady = await fetch(`${baseUrl}/ietf/ready`)
+            const actuatorHealth = await fetch(`${baseUrl}/actuator/health`)
+
+            expect(ietfHealth.headers.get('content-type')).toContain('application/health+json')
+            expect(await ietfHealth.json()).toMatchObject({ status: 'pass', checks: { 'database:responseTime': [{ status: 'pass' }] } })
+            expect(await ietfReady.json()).toEqual({ status: 'pass' })
+            expect(await actuatorHealth.json()).toMatchObject({ status: 'UP', components: { database: { status: 'UP' } } })
+        })
+    })
+})
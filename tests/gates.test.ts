@@ -0,0 +1,182 @@
+import { createServer, IncomingMessage, Server, ServerResponse } from "http";
+import { AddressInfo } from "net";
+import {
+    createReadinessController,
+    IDependency,
+    IFastifyReply,
+    IKoaContext,
+    ReadinessController,
+    ReadinessTimeoutError,
+    waitForReadiness
+} from "../lib";
+import { spyOnExit, waitUntil } from "./helpers";
+
+describe('gates', () => {
+    let controller: ReadinessController
+
+    const createDependencies = (isReady: () => Promise<boolean>): IDependency[] => [
+        {
+            data: { host: 'db' },
+            critical: true,
+            isReady,
+            name: 'database',
+            retryIntervalInMilliseconds: 10
+        },
+        {
+            data: {},
+            critical: false,
+            isReady: () => Promise.resolve(false),
+            name: 'search',
+            retryIntervalInMilliseconds: 10
+        }
+    ]
+
+    afterEach(() => {
+        controller?.stop()
+        controller = undefined
+    })
+
+    describe('waitForReadiness', () => {
+        it('resolves with the state of critical dependencies once they are ready', async () => {
+            let checks = 0
+            const result = await waitForReadiness(createDependencies(() => Promise.resolve(++checks > 2)))
+
+            expect(result).toEqual({
+                dependencies: [{ name: 'database', data: { host: 'db' }, ready: true }],
+                durationInMilliseconds: expect.any(Number)
+            })
+
+            const checksWhenResolved = checks
+            await new Promise(resolve => setTimeout(resolve, 50))
+            expect(checks).toEqual(checksWhenResolved)
+        })
+
+        it('rejects with the state of critical dependencies on timeout', async () => {
+            const exit = spyOnExit()
+
+            try {
+                const error = await waitForReadiness(
+                    createDependencies(() => Promise.resolve(false)),
+                    { maximumWaitTimeForServiceReadinessInMilliseconds: 50, onReadinessTimeout: { action: 'exit' } }
+                ).catch(err => err)
+
+                expect(error).toBeInstanceOf(ReadinessTimeoutError)
+                expect(error.dependencies).toEqual([{ name: 'database', data: { host: 'db' }, ready: false }])
+                expect(exit).not.toHaveBeenCalled()
+            } finally {
+                exit.mockRestore()
+            }
+        })
+    })
+
+    describe('node http gate', () => {
+        let server: Server
+
+        afterEach(async () => {
+            await new Promise(resolve => server.close(resolve))
+        })
+
+        it('rejects requests until the service is ready, except whitelisted paths', async () => {
+            let databaseReady = false
+            controller = createReadinessController(createDependencies(() => Promise.resolve(databaseReady)), {
+                notReadyResponse: 'negotiate',
+                retryAfterInSeconds: 3,
+                whitelistedPaths: ['/live', req => req.url === '/status?verbose=true']
+            })
+            const gate = controller.gate()
+            server = createServer((req: IncomingMessage, res: ServerResponse) => {
+                if (gate(req, res))
+                    res.end('ok')
+            })
+            await new Promise<void>(resolve => server.listen(0, () => resolve()))
+            const baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`
+
+            const rejected = await fetch(`${baseUrl}/orders`, { headers: { Accept: 'application/json' } })
+            const whitelisted = await fetch(`${baseUrl}/live`)
+            const whitelistedByPredicate = await fetch(`${baseUrl}/status?verbose=true`)
+
+            expect(rejected.status).toEqual(503)
+            expect(rejected.headers.get('retry-after')).toEqual('3')
+            expect(await rejected.json()).toEqual({ ready: false, pendingDependencies: ['database'] })
+            expect(await whitelisted.text()).toEqual('ok')
+            expect(whitelistedByPredicate.status).toEqual(200)
+
+            databaseReady = true
+            await waitUntil(() => expect(controller.isReady()).toEqual(true))
+
+            const accepted = await fetch(`${baseUrl}/orders`)
+
+            expect(accepted.status).toEqual(200)
+            expect(await accepted.text()).toEqual('ok')
+        })
+    })
+
+    describe('koa middleware', () => {
+        const createContext = (): IKoaContext & { headers: {[name: string]: string} } => {
+            const headers:{[name: string]: string} = {}
+            return {
+                req: { url: '/orders', method: 'GET', headers: {} } as IncomingMessage,
+                res: {} as ServerResponse,
+                status: 404,
+                body: undefined,
+                headers,
+                set: (name, value) => { headers[name] = value }
+            }
+        }
+
+        it('responds without calling next until the service is ready', async () => {
+            let databaseReady = false
+            controller = createReadinessController(createDependencies(() => Promise.resolve(databaseReady)), { retryAfterInSeconds: 1 })
+            const middleware = controller.koaMiddleware()
+            const next = jest.fn(() => Promise.resolve())
+            const rejectedContext = createContext()
+
+            await middleware(rejectedContext, next)
+
+            expect(next).not.toHaveBeenCalled()
+            expect(rejectedContext.status).toEqual(503)
+            expect(rejectedContext.body).toEqual('Service Unavailable')
+            expect(rejectedContext.headers['Retry-After']).toEqual('1')
+
+            databaseReady = true
+            await waitUntil(() => expect(controller.isReady()).toEqual(true))
+            await middleware(createContext(), next)
+
+            expect(next).toHaveBeenCalledTimes(1)
+        })
+    })
+
+    describe('fastify hook', () => {
+        const createReply = (): IFastifyReply => {
+            const reply = {
+                raw: {} as ServerResponse,
+                code: jest.fn(() => reply),
+                headers: jest.fn(() => reply),
+                send: jest.fn(() => reply)
+            }
+            return reply
+        }
+
+        it('replies without calling done until the service is ready', async () => {
+            let databaseReady = false
+            controller = createReadinessController(createDependencies(() => Promise.resolve(databaseReady)), { notReadyResponse: 'negotiate', retryAfterInSeconds: 1 })
+            const hook = controller.fastifyHook()
+            const request = { raw: { url: '/orders', method: 'GET', headers: { accept: 'text/plain' } } as IncomingMessage }
+            const done = jest.fn()
+            const rejectedReply = createReply()
+
+            hook(request, rejectedReply, done)
+
+            expect(done).not.toHaveBeenCalled()
+            expect(rejectedReply.code).toHaveBeenCalledWith(503)
+            expect(rejectedReply.headers).toHaveBeenCalledWith(expect.objectContaining({ 'Retry-After': '1' }))
+            expect(rejectedReply.send).toHaveBeenCalledWith('Service is not ready, pending dependencies: database')
+
+            databaseReady = true
+            await waitUntil(() => expect(controller.isReady()).toEqual(true))
+            hook(request, createReply(), done)
+
+            expect(done).toHaveBeenCalledTimes(1)
+        })
+    })
+})
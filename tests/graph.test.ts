@@ -0,0 +1,121 @@
+import { checkDependenciesHealth, createReadinessController, DependencyGraphError, IDependency } from "../lib";
+
+describe('dependency graph', () => {
+    const createDependency = (name: string, dependsOn?: string[], healthy: boolean = true, critical: boolean = true): IDependency => ({
+        name,
+        data: {},
+        critical,
+        isReady: () => Promise.resolve(healthy),
+        dependsOn
+    })
+
+    describe('validation', () => {
+        it('throws when a dependency depends on an unknown dependency', () => {
+            expect(() => createReadinessController([createDependency('cache', ['database'])]))
+                .toThrow(new DependencyGraphError("dependency 'cache' depends on unknown dependency 'database'"))
+        })
+
+        it('throws when dependencies are circular', () => {
+            const dependencies = [
+                createDependency('a', ['b']),
+                createDependency('b', ['c']),
+                createDependency('c', ['a'])
+            ]
+
+            expect(() => createReadinessController(dependencies)).toThrow(DependencyGraphError)
+            expect(() => createReadinessController(dependencies)).toThrow('circular dependency detected: a -> b -> c -> a')
+        })
+    })
+
+    describe('readiness', () => {
+        it('only checks a dependency once its prerequisites are ready', async () => {
+            const checks: string[] = []
+            let databaseAttempts = 0
+            const controller = createReadinessController([
+                {
+                    name: 'cache-warmer',
+                    data: {},
+                    critical: true,
+                    isReady: () => {
+                        checks.push('cache-warmer')
+                        return Promise.resolve(true)
+                    },
+                    dependsOn: ['database']
+                },
+                {
+                    name: 'database',
+                    data: {},
+                    critical: false,
+                    isReady: () => {
+                        checks.push('database')
+                        return Promise.resolve(++databaseAttempts === 2)
+                    },
+                    retryIntervalInMilliseconds: 10
+                }
+            ])
+
+            try {
+                await controller.whenReady()
+
+                expect(checks).toEqual(['database', 'database', 'cache-warmer'])
+            } finally {
+                controller.stop()
+            }
+        })
+    })
+
+    describe('health', () => {
+        const checkFields = (checkPassed: boolean) => ({
+            lastCheckedAt: expect.any(Date),
+            ageInMilliseconds: expect.any(Number),
+            latencyInMilliseconds: expect.any(Number),
+            consecutiveFailures: checkPassed ? 0 : 1,
+            [checkPassed ? 'lastSuccessAt' : 'lastFailureAt']: expect.any(Date)
+        })
+
+        it('reports the dependency tree and blocked by information', async () => {
+            const health = await checkDependenciesHealth([
+                createDependency('cache-warmer', ['cache']),
+                createDependency('cache', ['database']),
+                createDependency('database', undefined, false),
+                createDependency('search', undefined, true, false)
+            ])
+
+            expect(health).toEqual({
+                allDependenciesHealthy: false,
+                allCriticalDependenciesHealthy: false,
+                degraded: false,
+                timestamp: expect.any(Date),
+                dependencies: [
+                    { name: 'cache-warmer', data: {}, healthy: false, critical: true, ...checkFields(true), dependsOn: ['cache'], blockedBy: ['cache'] },
+                    { name: 'cache', data: {}, healthy: false, critical: true, ...checkFields(true), dependsOn: ['database'], blockedBy: ['database'] },
+                    { name: 'database', data: {}, healthy: false, critical: true, ...checkFields(false), dependsOn: [], blockedBy: [] },
+                    { name: 'search', data: {}, healthy: true, critical: false, ...checkFields(true), dependsOn: [], blockedBy: [] }
+                ],
+                dependencyTree: [
+                    {
+                        name: 'cache-warmer',
+                        dependsOn: [
+                            {
+                                name: 'cache',
+                                dependsOn: [ { name: 'database', dependsOn: [] } ]
+                            }
+                        ]
+                    },
+                    { name: 'search', dependsOn: [] }
+                ]
+            })
+        })
+
+        it('does not block dependencies on prerequisites which are not checked', async () => {
+            const health = await checkDependenciesHealth([createDependency('cache', ['database']), createDependency('search', ['search'])])
+
+            expect(health.allDependenciesHealthy).toEqual(true)
+            expect(health.dependencies).toMatchObject([
+                { name: 'cache', healthy: true, dependsOn: ['database'], blockedBy: [] },
+                { name: 'search', healthy: true, dependsOn: ['search'], blockedBy: [] }
+            ])
+            expect(health.dependencyTree).toEqual([{ name: 'cache', dependsOn: [] }])
+        })
+    })
+})
@@ -0,0 +1,111 @@
+import { checkDependenciesHealth, createDependencyGroup, createReadinessController, IDependency, ReadinessController } from "../lib";
+import { sleep, waitUntil } from "./helpers";
+
+describe('dependency groups', () => {
+    const createMember = (name: string, isReady: () => Promise<boolean>): IDependency => ({
+        data: {},
+        critical: true,
+        isReady,
+        name
+    })
+
+    const hang = () => new Promise<boolean>(() => undefined)
+
+    it('is ready once the minimum number of members are ready without waiting for the rest', async () => {
+        const group = createDependencyGroup({
+            name: 'replicas',
+            minimumHealthy: 2,
+            members: [
+                createMember('replica-1', () => Promise.resolve(true)),
+                createMember('replica-2', hang),
+                createMember('replica-3', () => Promise.resolve(true))
+            ]
+        })
+
+        expect(await group.isReady()).toEqual(true)
+        expect(group.data).toEqual({ members: 'replica-1, replica-2, replica-3', minimumHealthy: '2' })
+        expect(group.critical).toEqual(true)
+    })
+
+    it('is not ready once the quorum can no longer be met', async () => {
+        const group = createDependencyGroup({
+            name: 'brokers',
+            minimumHealthy: '75%',
+            members: [
+                createMember('broker-1', () => Promise.reject(new Error('connection refused'))),
+                createMember('broker-2', () => Promise.resolve(false)),
+                createMember('broker-3', hang),
+                createMember('broker-4', hang)
+            ]
+        })
+
+        expect(await group.isReady()).toEqual(false)
+    })
+
+    it('reports member level detail in health output', async () => {
+        const group = createDependencyGroup({
+            name: 'replicas',
+            minimumHealthy: '50%',
+            critical: false,
+            members: [
+                createMember('replica-1', () => Promise.resolve(true)),
+                createMember('replica-2', () => Promise.reject(new Error('connection refused')))
+            ]
+        })
+
+        const health = await checkDependenciesHealth([group])
+
+        expect(health.allDependenciesHealthy).toEqual(true)
+        expect(health.dependencies[0]).toMatchObject({
+            name: 'replicas',
+            healthy: true,
+            critical: false,
+            details: {
+                minimumHealthy: 1,
+                healthyMembers: 1,
+                totalMembers: 2,
+                members: [
+                    { name: 'replica-1', healthy: true, latencyInMilliseconds: expect.any(Number) },
+                    { name: 'replica-2', healthy: false, latencyInMilliseconds: expect.any(Number), error: { message: 'connection refused', type: 'Error' } }
+                ]
+            }
+        })
+    })
+
+    it('rejects invalid groups', () => {
+        const members = [createMember('replica-1', () => Promise.resolve(true)), createMember('replica-2', () => Promise.resolve(true))]
+
+        expect(() => createDependencyGroup({ name: 'replicas', minimumHealthy: 1, members: [] })).toThrow("dependency group 'replicas' has no members")
+        expect(() => createDependencyGroup({ name: 'replicas', minimumHealthy: 1, members: [members[0], members[0]] })).toThrow("more than one member named 'replica-1'")
+        expect(() => createDependencyGroup({ name: 'replicas', minimumHealthy: 3, members })).toThrow(TypeError)
+        expect(() => createDependencyGroup({ name: 'replicas', minimumHealthy: '0%', members })).toThrow(TypeError)
+    })
+
+    describe('readiness controller', () => {
+        let controller: ReadinessController
+
+        afterEach(() => {
+            controller?.stop()
+        })
+
+        it('treats a group as a single critical dependency', async () => {
+            let replicasUp = 0
+            const group = createDependencyGroup({
+                name: 'replicas',
+                minimumHealthy: 2,
+                retryIntervalInMilliseconds: 10,
+                members: [1, 2, 3].map(i => createMember(`replica-${i}`, () => Promise.resolve(replicasUp >= i)))
+            })
+            controller = createReadinessController([group])
+
+            replicasUp = 1
+            await sleep(50)
+
+            expect(controller.isReady()).toEqual(false)
+            expect(controller.getPendingDependencies()).toEqual(['replicas'])
+
+            replicasUp = 2
+            await waitUntil(() => expect(controller.isReady()).toEqual(true))
+        })
+    })
+})
@@ -0,0 +1,122 @@
+import { checkDependenciesHealthWith } from "../lib/health";
+import { HealthCheckCache } from "../lib/healthCache";
+import { IDependency } from "../lib";
+import { sleep } from "./helpers";
+
+describe('health check caching', () => {
+    const createDependency = (check: () => Promise<boolean>, healthCacheTtlInMilliseconds?: number): IDependency => ({
+        data: {},
+        critical: true,
+        isReady: check,
+        name: 'dependency',
+        healthCacheTtlInMilliseconds
+    })
+
+    it('shares an in-flight check between concurrent callers', async () => {
+        let checks = 0
+        const cache = new HealthCheckCache()
+        const dependency = createDependency(async () => {
+            checks++
+            await sleep(20)
+            return true
+        })
+
+        const results = await Promise.all([
+            checkDependenciesHealthWith([dependency], undefined, undefined, undefined, cache),
+            checkDependenciesHealthWith([dependency], undefined, undefined, undefined, cache)
+        ])
+
+        expect(checks).toEqual(1)
+        expect(results[0].dependencies[0].lastCheckedAt).toBe(results[1].dependencies[0].lastCheckedAt)
+    })
+
+    it('reuses results younger than the ttl unless a fresh check is requested', async () => {
+        let checks = 0
+        const cache = new HealthCheckCache()
+        const dependency = createDependency(() => {
+            checks++
+            return Promise.resolve(true)
+        }, 1000)
+
+        await checkDependenciesHealthWith([dependency], undefined, undefined, undefined, cache)
+        await sleep(10)
+        const cached = await checkDependenciesHealthWith([dependency], undefined, undefined, undefined, cache)
+
+        expect(checks).toEqual(1)
+        expect(cached.dependencies[0].ageInMilliseconds).toBeGreaterThanOrEqual(5)
+
+        const fresh = await checkDependenciesHealthWith([dependency], undefined, undefined, { fresh: true }, cache)
+
+        expect(checks).toEqual(2)
+        expect(fresh.dependencies[0].lastCheckedAt.getTime()).toBeGreaterThan(cached.dependencies[0].lastCheckedAt.getTime())
+    })
+
+    it('checks again once a cached result has expired', async () => {
+        let checks = 0
+        const cache = new HealthCheckCache()
+        const dependency = createDependency(() => {
+            checks++
+            return Promise.resolve(true)
+        })
+
+        await checkDependenciesHealthWith([dependency], { healthCacheTtlInMilliseconds: 10 }, undefined, undefined, cache)
+        await sleep(20)
+        await checkDependenciesHealthWith([dependency], { healthCacheTtlInMilliseconds: 10 }, undefined, undefined, cache)
+
+        expect(checks).toEqual(2)
+    })
+})
+
+describe('health check details', () => {
+    it('reports the error, latency and status detail of each check', async () => {
+        const health = await checkDependenciesHealthWith([
+            {
+                data: {},
+                critical: true,
+                isReady: () => Promise.resolve(true),
+                isHealthy: () => Promise.resolve({ healthy: true, details: { replicationLagInSeconds: 2 } }),
+                name: 'database'
+            },
+            {
+                data: {},
+                critical: false,
+                isReady: () => Promise.reject(new TypeError('connection refused')),
+                name: 'search'
+            },
+            {
+                data: {},
+                critical: false,
+                isReady: () => new Promise(resolve => setTimeout(() => resolve(true), 50)),
+                name: 'slow',
+                checkTimeoutInMilliseconds: 10
+            }
+        ])
+
+        expect(health.timestamp).toBeInstanceOf(Date)
+        expect(health.dependencies[0]).toMatchObject({ healthy: true, details: { replicationLagInSeconds: 2 }, consecutiveFailures: 0 })
+        expect(health.dependencies[0].error).toBeUndefined()
+        expect(health.dependencies[1]).toMatchObject({ healthy: false, error: { message: 'connection refused', type: 'TypeError' } })
+        expect(health.dependencies[2]).toMatchObject({ healthy: false, error: { message: 'check timed out after 10 milliseconds', type: 'CheckTimeoutError' } })
+        expect(health.dependencies[2].latencyInMilliseconds).toBeGreaterThanOrEqual(5)
+    })
+
+    it('tracks the last success, last failure and consecutive failures across checks', async () => {
+        let healthy = true
+        const cache = new HealthCheckCache()
+        const dependency: IDependency = {
+            data: {},
+            critical: true,
+            isReady: () => Promise.resolve(healthy),
+            name: 'dependency'
+        }
+
+        const first = await checkDependenciesHealthWith([dependency], undefined, undefined, undefined, cache)
+        healthy = false
+        await checkDependenciesHealthWith([dependency], undefined, undefined, undefined, cache)
+        const third = await checkDependenciesHealthWith([dependency], undefined, undefined, undefined, cache)
+
+        expect(third.dependencies[0].consecutiveFailures).toEqual(2)
+        expect(third.dependencies[0].lastSuccessAt).toEqual(first.dependencies[0].lastCheckedAt)
+        expect(third.dependencies[0].lastFailureAt).toEqual(third.dependencies[0].lastCheckedAt)
+    })
+})
@@ -0,0 +1,129 @@
+import express from "express";
+import { Server } from "http";
+import { AddressInfo } from "net";
+import {
+    createHealthRouter,
+    createReadinessController,
+    createReadinessMiddleware,
+    IDependency,
+    ReadinessController,
+    stopCheckingReadiness
+} from "../lib";
+import { waitUntil } from "./helpers";
+
+describe('health router', () => {
+    let server: Server
+    let controller: ReadinessController
+
+    const listen = (app: express.Express): Promise<string> => new Promise(resolve => {
+        server = app.listen(0, () => resolve(`http://127.0.0.1:${(server.address() as AddressInfo).port}`))
+    })
+
+    afterEach(async () => {
+        controller?.stop()
+        controller = undefined
+        stopCheckingReadiness()
+        await new Promise(resolve => server.close(resolve))
+    })
+
+    const createDependencies = (ready: boolean): IDependency[] => [
+        {
+            data: { url: 'https://api.co.uk' },
+            critical: true,
+            isReady: () => Promise.resolve(ready),
+            name: 'dependency-1',
+            retryIntervalInMilliseconds: 10
+        }
+    ]
+
+    it('exposes whitelisted endpoints while critical dependencies are not ready', async () => {
+        const dependencies = createDependencies(false)
+        const app = express()
+        app.use(createReadinessMiddleware(dependencies))
+        app.use('/status', createHealthRouter(dependencies, { mountPath: '/status' }))
+        app.get('/data', (req, res) => res.sendStatus(200))
+        const baseUrl = await listen(app)
+
+        const live = await fetch(`${baseUrl}/status/live`)
+        const ready = await fetch(`${baseUrl}/status/ready`)
+        const health = await fetch(`${baseUrl}/status/health`)
+        const data = await fetch(`${baseUrl}/data`)
+
+        expect(live.status).toEqual(200)
+        expect(ready.status).toEqual(503)
+        expect(await ready.json()).toEqual({ ready: false })
+        expect(health.status).toEqual(503)
+        expect(await health.json()).toEqual({
+            allDependenciesHealthy: false,
+            allCriticalDependenciesHealthy: false,
+            degraded: false,
+            timestamp: expect.any(String),
+            dependencies: [
+                {
+                    name: 'dependency-1',
+                    data: { url: 'https://api.co.uk' },
+                    healthy: false,
+                    critical: true,
+                    lastCheckedAt: expect.any(String),
+                    ageInMilliseconds: expect.any(Number),
+                    latencyInMilliseconds: expect.any(Number),
+                    lastFailureAt: expect.any(String),
+                    consecutiveFailures: 1
+                }
+            ]
+        })
+        expect(data.status).toEqual(503)
+    })
+
+    it('exposes the endpoints of a router mounted under a prefix without a mount path', async () => {
+        const dependencies = createDependencies(false)
+        const app = express()
+        app.use(createReadinessMiddleware(dependencies))
+        app.use('/internal', createHealthRouter(dependencies))
+        app.get('/data', (req, res) => res.sendStatus(200))
+        const baseUrl = await listen(app)
+
+        const live = await fetch(`${baseUrl}/internal/live`)
+        const ready = await fetch(`${baseUrl}/internal/ready`)
+        const data = await fetch(`${baseUrl}/data`)
+
+        expect(live.status).toEqual(200)
+        expect(ready.status).toEqual(503)
+        expect(await ready.json()).toEqual({ ready: false })
+        expect(data.status).toEqual(503)
+    })
+
+    it('returns 200 from readiness and health endpoints once dependencies are ready', async () => {
+        controller = createReadinessController(createDependencies(true))
+        const app = express()
+        app.use(controller.middleware())
+        app.use(controller.healthRouter({ readinessPath: '/readiness' }))
+        const baseUrl = await listen(app)
+        await waitUntil(() => expect(controller.isReady()).toEqual(true))
+
+        const ready = await fetch(`${baseUrl}/readiness`)
+        const health = await fetch(`${baseUrl}/health`)
+
+        expect(ready.status).toEqual(200)
+        expect(await ready.json()).toEqual({ ready: true })
+        expect(health.status).toEqual(200)
+    })
+
+    it('passes errors from checking health to express error handling', async () => {
+        controller = createReadinessController(createDependencies(true))
+        jest.spyOn(controller, 'checkHealth').mockRejectedValue(new Error('health check failed'))
+        const errors: Error[] = []
+        const app = express()
+        app.use(controller.healthRouter())
+        app.use((err: Error, req: express.Request, res: express.Response, next: express.NextFunction) => {
+            errors.push(err)
+            res.sendStatus(500)
+        })
+        const baseUrl = await listen(app)
+
+        const health = await fetch(`${baseUrl}/health`)
+
+        expect(health.status).toEqual(500)
+        expect(errors.map(x => x.message)).toEqual(['health check failed'])
+    })
+})
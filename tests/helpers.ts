@@ -0,0 +1,23 @@
+export const sleep = async (timeout: number = 10) => new Promise((resolve) => { setTimeout(resolve, timeout) })
+
+export const waitUntil = (assertionFunc: () => void, failureMessage: string = 'expectations were not met', timeout: number = 5000) => {
+    return new Promise((resolve, reject) => {
+        let timeoutId
+        const intervalId = setInterval(() => {
+            try {
+                assertionFunc()
+                clearTimeout(timeoutId)
+                clearInterval(intervalId)
+                resolve({})
+            } catch {
+                // do nothing
+            }
+        }, 10)
+        timeoutId = setTimeout(() => {
+            clearInterval(intervalId)
+            reject(failureMessage)
+        }, timeout)
+    })
+}
+
+export const spyOnExit = () => jest.spyOn(process, 'exit').mockImplementation((() => undefined) as never)
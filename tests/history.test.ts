@@ -0,0 +1,105 @@
+import { ReadinessHistory } from "../lib/history";
+import { createReadinessController, IDependency, IStructuredLogger, ReadinessController } from "../lib";
+import { sleep, waitUntil } from "./helpers";
+
+describe('readiness history', () => {
+    it('keeps the most recent transitions in a ring buffer', () => {
+        const history = new ReadinessHistory(2)
+        const transitions = [1, 2, 3].map(i => ({ ready: i % 2 === 1, timestamp: new Date(i * 1000), reason: `reason ${i}` }))
+
+        transitions.forEach(x => history.record(x))
+
+        expect(history.getTransitions()).toEqual([transitions[1], transitions[2]])
+        expect(history.getTransitions(new Date(3000))).toEqual([transitions[2]])
+        expect(new ReadinessHistory(0).getTransitions()).toEqual([])
+    })
+
+    describe('readiness controller', () => {
+        let controller: ReadinessController
+        let databaseUp: boolean
+
+        const dependencies = (): IDependency[] => [
+            {
+                data: {},
+                critical: true,
+                isReady: () => Promise.resolve(databaseUp),
+                name: 'database',
+                retryIntervalInMilliseconds: 10
+            }
+        ]
+
+        const config = {
+            continuousMonitoring: true,
+            monitoringIntervalInMilliseconds: 10,
+            consecutiveFailuresBeforeNotReady: 1
+        }
+
+        beforeEach(() => {
+            databaseUp = true
+        })
+
+        afterEach(() => {
+            controller?.stop()
+        })
+
+        it('records readiness transitions with reasons and includes them in health output on request', async () => {
+            controller = createReadinessController(dependencies(), config)
+            await waitUntil(() => expect(controller.isReady()).toEqual(true))
+
+            databaseUp = false
+            await waitUntil(() => expect(controller.isReady()).toEqual(false))
+            databaseUp = true
+            await waitUntil(() => expect(controller.isReady()).toEqual(true))
+
+            const [history] = controller.getHistory('database')
+
+            expect(history).toEqual({
+                name: 'database',
+                flapping: false,
+                transitions: [
+                    { ready: true, timestamp: expect.any(Date), reason: 'readiness check passed' },
+                    { ready: false, timestamp: expect.any(Date), reason: '1 consecutive failed checks' },
+                    { ready: true, timestamp: expect.any(Date), reason: 'health check passed' }
+                ]
+            })
+            expect(controller.getHistory('database', history.transitions[2].timestamp)[0].transitions).toHaveLength(1)
+            expect((await controller.checkHealth()).dependencies[0].history).toBeUndefined()
+            expect((await controller.checkHealth({ includeHistory: true })).dependencies[0].history).toEqual(history.transitions)
+        })
+
+        it('holds a flapping dependency not ready until it has been stable', async () => {
+            const messages: string[] = []
+            const log = (message: string) => messages.push(message)
+            const logger:IStructuredLogger = { debug: log, info: log, warn: log, error: log }
+            controller = createReadinessController(dependencies(), {
+                ...config,
+                flapDetection: { transitionThreshold: 4, windowInMilliseconds: 60000, stableForInMilliseconds: 300 }
+            }, logger)
+
+            for (let i = 0; i < 2; i++) {
+                await waitUntil(() => expect(controller.isReady()).toEqual(true))
+                databaseUp = false
+                await waitUntil(() => expect(controller.isReady()).toEqual(false))
+                databaseUp = true
+            }
+
+            expect(controller.getHistory()[0].flapping).toEqual(true)
+            const health = await controller.checkHealth()
+
+            expect(health.allCriticalDependenciesHealthy).toEqual(false)
+            expect(health.dependencies[0]).toMatchObject({ healthy: false, flapping: true })
+            expect(messages).toContain("critical dependency 'database' is flapping after 4 readiness transitions within 60000 milliseconds, held not ready until stable for 300 milliseconds")
+
+            await sleep(100)
+
+            expect(controller.isReady()).toEqual(false)
+
+            await waitUntil(() => expect(controller.isReady()).toEqual(true))
+            const [history] = controller.getHistory('database')
+
+            expect(history.flapping).toEqual(false)
+            expect((await controller.checkHealth()).dependencies[0].healthy).toEqual(true)
+            expect(history.transitions[history.transitions.length - 1].reason).toEqual('health check passed, stable for 300 milliseconds after flapping')
+        })
+    })
+})
@@ -7,11 +7,9 @@ import {
     setLogger,
     stopCheckingReadiness
 } from "../lib";
+import { sleep, waitUntil } from "./helpers";
 
 describe('express-service-readiness-middleware', () => {
-    // @ts-ignore
-    global.ExpressServiceReadinessTests = true
-
     describe('createReadinessMiddleware', () => {
         it('Logs message when critical dependencies do not become healthy after a timeout period', async () => {
             const dependencies: IDependency[] = [
@@ -59,7 +57,8 @@ describe('express-service-readiness-middleware', () => {
             createReadinessMiddleware(dependencies, {
                 retryIntervalInMilliseconds: 10,
                 maximumWaitTimeForServiceReadinessInMilliseconds: 1000,
-                logOutDependenciesDataOnFailure: true
+                logOutDependenciesDataOnFailure: true,
+                onReadinessTimeout: { action: 'reject' }
             })
 
             await waitUntil(() => {
@@ -131,7 +130,8 @@ describe('express-service-readiness-middleware', () => {
             })
 
             it('when the critical dependency is ready', async () => {
-                return new Promise(resolve => {
+                // @ts-ignore
+                return new Promise(async (resolve) => {
                     // @ts-ignore
                     const request: Request = {}
                     // @ts-ignore
@@ -155,6 +155,8 @@ describe('express-service-readiness-middleware', () => {
 
                     let middleware = createReadinessMiddleware(dependencies)
 
+                    await waitUntil(() => expect(criticalDependenciesReady()).toEqual(true))
+
                     // @ts-ignore
                     middleware(request, response, () => {
                         console.log('We are ready')
@@ -362,8 +364,7 @@ describe('express-service-readiness-middleware', () => {
                     }
 
                     expect(resolved).toEqual(true)
-                    if (criticalDependenciesReady() !== true)
-                        throw Error('Critical dependencies are not ready')
+                    expect(criticalDependenciesReady()).toEqual(false)
                     resolve({})
                 })
             })
@@ -398,6 +399,8 @@ describe('express-service-readiness-middleware', () => {
             expect(dependenciesHealth).toEqual({
                 "allDependenciesHealthy": false,
                 "allCriticalDependenciesHealthy": true,
+                "degraded": true,
+                "timestamp": expect.any(Date),
                 "dependencies": [
                     {
                         "name": "dependency-1",
@@ -405,7 +408,12 @@ describe('express-service-readiness-middleware', () => {
                             "url": "https://api.co.uk"
                         },
                         "healthy": true,
-                        "critical": true
+                        "critical": true,
+                        "lastCheckedAt": expect.any(Date),
+                        "ageInMilliseconds": expect.any(Number),
+                        "latencyInMilliseconds": expect.any(Number),
+                        "lastSuccessAt": expect.any(Date),
+                        "consecutiveFailures": 0
                     },
                     {
                         "name": "dependency-2",
@@ -413,33 +421,15 @@ describe('express-service-readiness-middleware', () => {
                             "connectionString": "protocol:://{user}:{password}/test"
                         },
                         "healthy": false,
-                        "critical": false
+                        "critical": false,
+                        "lastCheckedAt": expect.any(Date),
+                        "ageInMilliseconds": expect.any(Number),
+                        "latencyInMilliseconds": expect.any(Number),
+                        "lastFailureAt": expect.any(Date),
+                        "consecutiveFailures": 1
                     }
                 ]
             })
         })
     })
 })
-
-
-const sleep = async (timeout: number = 10) => new Promise((resolve) => { setTimeout(resolve, timeout) })
-
-const waitUntil = (assertionFunc: () => void, failureMessage: string = 'expectations were not met', timeout: number = 5000) => {
-    return new Promise((resolve, reject) => {
-        let timeoutId
-        const intervalId = setInterval(() => {
-            try {
-                assertionFunc()
-                clearTimeout(timeoutId)
-                clearInterval(intervalId)
-                resolve({})
-            } catch {
-                // do nothing
-            }
-        }, 10)
-        timeoutId = setTimeout(() => {
-            clearInterval(intervalId)
-            reject(failureMessage)
-        }, timeout)
-    })
-}
@@ -0,0 +1,108 @@
+import {
+    createPinoLoggerAdapter,
+    createReadinessController,
+    createWinstonLoggerAdapter,
+    ILogContext,
+    ReadinessController
+} from "../lib";
+import { toStructuredLogger } from "../lib/logging";
+
+describe('logging', () => {
+    describe('toStructuredLogger', () => {
+        it('falls back to the log function for every level', () => {
+            const messages: string[] = []
+            const logger = toStructuredLogger({ log: (message) => messages.push(message) })
+
+            logger.debug('debug message')
+            logger.info('info message')
+            logger.warn('warn message', { dependency: 'test' })
+            logger.error('error message', { error: new Error('failed') })
+
+            expect(messages).toEqual(['debug message', 'info message', 'warn message', 'error message'])
+        })
+    })
+
+    describe('adapters', () => {
+        it('passes the context object first with the error under err to pino style loggers', () => {
+            const calls: any[] = []
+            const logger = createPinoLoggerAdapter({
+                debug: (obj, message) => calls.push(['debug', obj, message]),
+                info: (obj, message) => calls.push(['info', obj, message]),
+                warn: (obj, message) => calls.push(['warn', obj, message]),
+                error: (obj, message) => calls.push(['error', obj, message])
+            })
+            const error = new Error('failed')
+
+            logger.info('ready', { dependency: 'database' })
+            logger.error('failed', { dependency: 'database', error })
+
+            expect(calls).toEqual([
+                ['info', { dependency: 'database' }, 'ready'],
+                ['error', { dependency: 'database', err: error }, 'failed']
+            ])
+        })
+
+        it('passes the context object last to winston style loggers', () => {
+            const calls: any[] = []
+            const logger = createWinstonLoggerAdapter({
+                debug: (message, meta) => calls.push(['debug', message, meta]),
+                info: (message, meta) => calls.push(['info', message, meta]),
+                warn: (message, meta) => calls.push(['warn', message, meta]),
+                error: (message, meta) => calls.push(['error', message, meta])
+            })
+
+            logger.warn('not ready', { dependency: 'database' })
+            logger.debug('no context')
+
+            expect(calls).toEqual([
+                ['warn', 'not ready', { dependency: 'database' }],
+                ['debug', 'no context', {}]
+            ])
+        })
+    })
+
+    describe('readiness controller', () => {
+        let controller: ReadinessController
+
+        afterEach(() => {
+            controller?.stop()
+        })
+
+        it('logs at the appropriate level with structured context', async () => {
+            const entries: Array<{ level: string, message: string, context?: ILogContext }> = []
+            const log = (level: string) => (message: string, context?: ILogContext) => entries.push({ level, message, context })
+            let attempts = 0
+            const error = new Error('connection refused')
+
+            controller = createReadinessController([
+                {
+                    data: { host: 'db' },
+                    critical: true,
+                    isReady: () => ++attempts === 1 ? Promise.reject(error) : Promise.resolve(true),
+                    name: 'database',
+                    retryIntervalInMilliseconds: 10
+                }
+            ], { logOutDependenciesDataOnFailure: true }, {
+                debug: log('debug'),
+                info: log('info'),
+                warn: log('warn'),
+                error: log('error')
+            })
+
+            await controller.whenReady()
+
+            expect(entries.map(x => [x.level, x.message])).toEqual([
+                ['error', `An error occurred while checking health for critical dependency 'database', data: {"host":"db"}, error: connection refused`],
+                ['info', `critical dependency 'database' is ready`],
+                ['info', 'All critical dependencies are now ready']
+            ])
+            expect(entries[0].context).toEqual({
+                dependency: 'database',
+                critical: true,
+                data: { host: 'db' },
+                durationInMilliseconds: expect.any(Number),
+                error
+            })
+        })
+    })
+})
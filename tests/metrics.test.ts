@@ -0,0 +1,96 @@
+import { Request, Response } from "express";
+import { createMetrics, createReadinessController, ReadinessController } from "../lib";
+
+describe('metrics', () => {
+    let controller: ReadinessController
+
+    afterEach(() => {
+        controller?.stop()
+    })
+
+    it('renders readiness and dependency check metrics in the Prometheus text format', () => {
+        const metrics = createMetrics({ buckets: [0.1, 1] })
+
+        metrics.setServiceReady(true)
+        metrics.observeCheck('database', true, true, 50)
+        metrics.observeCheck('database', true, false, 500)
+        metrics.observeCheck('search "v2"', false, false, 2000)
+
+        expect(metrics.render()).toEqual([
+            '# HELP service_readiness_ready Whether all critical dependencies are ready (1) or not (0)',
+            '# TYPE service_readiness_ready gauge',
+            'service_readiness_ready 1',
+            '# HELP service_readiness_dependency_healthy Whether the last check of a dependency passed (1) or not (0)',
+            '# TYPE service_readiness_dependency_healthy gauge',
+            'service_readiness_dependency_healthy{name="database",critical="true"} 0',
+            'service_readiness_dependency_healthy{name="search \\"v2\\"",critical="false"} 0',
+            '# HELP service_readiness_dependency_checks_total Total number of dependency checks',
+            '# TYPE service_readiness_dependency_checks_total counter',
+            'service_readiness_dependency_checks_total{name="database",critical="true"} 2',
+            'service_readiness_dependency_checks_total{name="search \\"v2\\"",critical="false"} 1',
+            '# HELP service_readiness_dependency_check_failures_total Total number of failed dependency checks',
+            '# TYPE service_readiness_dependency_check_failures_total counter',
+            'service_readiness_dependency_check_failures_total{name="database",critical="true"} 1',
+            'service_readiness_dependency_check_failures_total{name="search \\"v2\\"",critical="false"} 1',
+            '# HELP service_readiness_dependency_check_duration_seconds Duration of dependency checks in seconds',
+            '# TYPE service_readiness_dependency_check_duration_seconds histogram',
+            'service_readiness_dependency_check_duration_seconds_bucket{name="database",critical="true",le="0.1"} 1',
+            'service_readiness_dependency_check_duration_seconds_bucket{name="database",critical="true",le="1"} 2',
+            'service_readiness_dependency_check_duration_seconds_bucket{name="database",critical="true",le="+Inf"} 2',
+            'service_readiness_dependency_check_duration_seconds_sum{name="database",critical="true"} 0.55',
+            'service_readiness_dependency_check_duration_seconds_count{name="database",critical="true"} 2',
+            'service_readiness_dependency_check_duration_seconds_bucket{name="search \\"v2\\"",critical="false",le="0.1"} 0',
+            'service_readiness_dependency_check_duration_seconds_bucket{name="search \\"v2\\"",critical="false",le="1"} 0',
+            'service_readiness_dependency_check_duration_seconds_bucket{name="search \\"v2\\"",critical="false",le="+Inf"} 1',
+            'service_readiness_dependency_check_duration_seconds_sum{name="search \\"v2\\"",critical="false"} 2',
+            'service_readiness_dependency_check_duration_seconds_count{name="search \\"v2\\"",critical="false"} 1',
+            ''
+        ].join('\n'))
+    })
+
+    it('records checks made by a readiness controller', async () => {
+        const metrics = createMetrics({ prefix: 'app_' })
+        controller = createReadinessController([
+            {
+                data: {},
+                critical: true,
+                isReady: () => Promise.resolve(true),
+                name: 'database'
+            },
+            {
+                data: {},
+                critical: false,
+                isReady: () => Promise.resolve(false),
+                name: 'cache'
+            }
+        ], { metrics })
+
+        await controller.whenReady()
+        await controller.checkHealth()
+
+        const rendered = metrics.render()
+        expect(rendered).toContain('app_ready 1')
+        expect(rendered).toContain('app_dependency_checks_total{name="database",critical="true"} 2')
+        expect(rendered).toContain('app_dependency_check_failures_total{name="cache",critical="false"} 1')
+    })
+
+    it('serves the rendered metrics from an express handler', () => {
+        const metrics = createMetrics()
+        const headers: {[key: string]: string} = {}
+        let body: string
+
+        // @ts-ignore
+        const response: Response = {
+            // @ts-ignore
+            set: (name: string, value: string) => { headers[name] = value },
+            // @ts-ignore
+            send: (value: string) => { body = value }
+        }
+
+        // @ts-ignore
+        metrics.handler()({} as Request, response, () => {})
+
+        expect(headers['Content-Type']).toEqual('text/plain; version=0.0.4; charset=utf-8')
+        expect(body).toEqual(metrics.render())
+    })
+})
@@ -0,0 +1,97 @@
+import express from "express";
+import { Server } from "http";
+import { AddressInfo } from "net";
+import { createReadinessController, IConfig, INotReadyDetails, ReadinessController } from "../lib";
+
+describe('not ready response', () => {
+    let server: Server
+    let controller: ReadinessController
+
+    afterEach(async () => {
+        controller?.stop()
+        await new Promise(resolve => server.close(resolve))
+    })
+
+    const listen = async (config: IConfig): Promise<string> => {
+        controller = createReadinessController([
+            {
+                data: {},
+                critical: true,
+                isReady: () => Promise.resolve(false),
+                name: 'database',
+                retryIntervalInMilliseconds: 10
+            },
+            {
+                data: {},
+                critical: false,
+                isReady: () => Promise.resolve(false),
+                name: 'search'
+            }
+        ], config)
+        const app = express()
+        app.use(controller.middleware())
+        app.get('/data', (req, res) => res.sendStatus(200))
+
+        return new Promise(resolve => {
+            server = app.listen(0, () => resolve(`http://127.0.0.1:${(server.address() as AddressInfo).port}`))
+        })
+    }
+
+    it('responds with the configured status code and a Retry-After header derived from the retry interval', async () => {
+        const baseUrl = await listen({ notReadyStatusCode: 502, retryIntervalInMilliseconds: 2500 })
+
+        const response = await fetch(`${baseUrl}/data`)
+
+        expect(response.status).toEqual(502)
+        expect(response.headers.get('retry-after')).toEqual('3')
+    })
+
+    it('responds with JSON listing pending critical dependencies when JSON is accepted', async () => {
+        const baseUrl = await listen({ notReadyResponse: 'negotiate', retryAfterInSeconds: 30 })
+
+        const response = await fetch(`${baseUrl}/data`, { headers: { Accept: 'application/json' } })
+
+        expect(response.status).toEqual(503)
+        expect(response.headers.get('retry-after')).toEqual('30')
+        expect(await response.json()).toEqual({ ready: false, pendingDependencies: ['database'] })
+    })
+
+    it('responds with plain text when JSON is not accepted', async () => {
+        const baseUrl = await listen({ notReadyResponse: 'negotiate' })
+
+        const response = await fetch(`${baseUrl}/data`, { headers: { Accept: 'text/plain' } })
+
+        expect(response.status).toEqual(503)
+        expect(response.headers.get('content-type')).toContain('text/plain')
+        expect(await response.text()).toEqual('Service is not ready, pending dependencies: database')
+    })
+
+    it('reports draining without a Retry-After header', async () => {
+        const baseUrl = await listen({ notReadyResponse: 'negotiate' })
+        controller.beginDraining()
+
+        const json = await fetch(`${baseUrl}/data`, { headers: { Accept: 'application/json' } })
+        const text = await fetch(`${baseUrl}/data`, { headers: { Accept: 'text/plain' } })
+
+        expect(json.status).toEqual(503)
+        expect(json.headers.get('retry-after')).toBeNull()
+        expect(await json.json()).toEqual({ ready: false, draining: true })
+        expect(await text.text()).toEqual('Service is draining')
+    })
+
+    it('uses a custom handler', async () => {
+        let details: INotReadyDetails
+        const baseUrl = await listen({
+            notReadyResponse: (req, res, notReadyDetails) => {
+                details = notReadyDetails
+                res.status(429).send('try later')
+            }
+        })
+
+        const response = await fetch(`${baseUrl}/data`)
+
+        expect(response.status).toEqual(429)
+        expect(await response.text()).toEqual('try later')
+        expect(details).toEqual({ statusCode: 503, retryAfterInSeconds: 2, pendingDependencies: ['database'], draining: false })
+    })
+})
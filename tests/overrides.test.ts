@@ -0,0 +1,170 @@
+import express from "express";
+import { Server } from "http";
+import { AddressInfo } from "net";
+import { createReadinessController, DependencyGraphError, IDependency, ReadinessController } from "../lib";
+import { waitUntil } from "./helpers";
+
+describe('overrides', () => {
+    let controller: ReadinessController
+
+    const createDependencies = (databaseReady: boolean): IDependency[] => [
+        {
+            data: {},
+            critical: true,
+            isReady: () => Promise.resolve(databaseReady),
+            name: 'database',
+            retryIntervalInMilliseconds: 10
+        },
+        {
+            data: {},
+            critical: false,
+            isReady: () => Promise.resolve(true),
+            name: 'search',
+            retryIntervalInMilliseconds: 10
+        }
+    ]
+
+    afterEach(() => {
+        controller?.stop()
+        controller = undefined
+    })
+
+    it('forces the service out of rotation until the override is cleared', async () => {
+        controller = createReadinessController(createDependencies(true))
+        await waitUntil(() => expect(controller.isReady()).toEqual(true))
+
+        const override = controller.setOverride('notReady', 'incident 42')
+
+        expect(controller.isReady()).toEqual(false)
+        expect(controller.getOverrides()).toEqual({ service: override, dependencies: {} })
+        expect(override).toEqual({ state: 'notReady', reason: 'incident 42', setAt: expect.any(Date) })
+
+        controller.clearOverride()
+
+        expect(controller.isReady()).toEqual(true)
+        expect(controller.getOverrides()).toEqual({ service: undefined, dependencies: {} })
+    })
+
+    it('forces a dependency ready and reports the override in health output', async () => {
+        controller = createReadinessController(createDependencies(false))
+
+        controller.setOverride('ready', 'checker is wrong', undefined, 'database')
+        const health = await controller.checkHealth()
+
+        expect(controller.isReady()).toEqual(true)
+        expect(controller.getPendingDependencies()).toEqual([])
+        expect(health.allCriticalDependenciesHealthy).toEqual(true)
+        expect(health.dependencies[0]).toMatchObject({
+            name: 'database',
+            healthy: true,
+            override: { state: 'ready', reason: 'checker is wrong' }
+        })
+    })
+
+    it('clears an override once its ttl expires', async () => {
+        controller = createReadinessController(createDependencies(true))
+        await waitUntil(() => expect(controller.isReady()).toEqual(true))
+
+        const override = controller.setOverride('notReady', 'maintenance', 20)
+
+        expect(override.expiresAt.getTime() - override.setAt.getTime()).toEqual(20)
+        expect(controller.isReady()).toEqual(false)
+        await waitUntil(() => expect(controller.isReady()).toEqual(true))
+        expect(controller.getOverrides().service).toBeUndefined()
+    })
+
+    it('throws when overriding an unknown dependency', () => {
+        controller = createReadinessController([])
+
+        expect(() => controller.setOverride('ready', 'reason', undefined, 'unknown')).toThrow(DependencyGraphError)
+    })
+
+    describe('admin router', () => {
+        let server: Server
+        let baseUrl: string
+
+        beforeEach(async () => {
+            controller = createReadinessController(createDependencies(true))
+            const app = express()
+            app.use(controller.middleware())
+            app.use('/admin', controller.adminRouter({
+                mountPath: '/admin',
+                authorize: req => req.headers.authorization === 'Bearer secret'
+            }))
+            await new Promise<void>(resolve => {
+                server = app.listen(0, () => resolve())
+            })
+            baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}/admin/overrides`
+            await waitUntil(() => expect(controller.isReady()).toEqual(true))
+        })
+
+        afterEach(async () => {
+            await new Promise(resolve => server.close(resolve))
+        })
+
+        const request = (method: string, path: string = '', body?: object, authorization: string = 'Bearer secret') =>
+            fetch(`${baseUrl}${path}`, {
+                method,
+                headers: { 'Content-Type': 'application/json', Authorization: authorization },
+                body: body ? JSON.stringify(body) : undefined
+            })
+
+        it('rejects unauthorized requests', async () => {
+            const response = await request('PUT', '', { state: 'notReady', reason: 'incident' }, 'Bearer wrong')
+
+            expect(response.status).toEqual(401)
+            expect(controller.isReady()).toEqual(true)
+        })
+
+        it('sets, views and clears service and dependency overrides', async () => {
+            const service = await request('PUT', '', { state: 'notReady', reason: 'incident', ttlInMilliseconds: 60000 })
+            const dependency = await request('PUT', '/search', { state: 'notReady', reason: 'reindexing' })
+
+            expect(service.status).toEqual(200)
+            expect(await service.json()).toMatchObject({ state: 'notReady', reason: 'incident', expiresAt: expect.any(String) })
+            expect(dependency.status).toEqual(200)
+            expect(controller.isReady()).toEqual(false)
+
+            const overrides = await (await request('GET')).json()
+
+            expect(overrides).toMatchObject({
+                service: { state: 'notReady', reason: 'incident' },
+                dependencies: { search: { state: 'notReady', reason: 'reindexing' } }
+            })
+
+            expect((await request('DELETE')).status).toEqual(204)
+            expect((await request('DELETE', '/search')).status).toEqual(204)
+            expect(controller.isReady()).toEqual(true)
+            expect(controller.getOverrides()).toEqual({ service: undefined, dependencies: {} })
+        })
+
+        it('validates override requests', async () => {
+            expect((await request('PUT', '', { state: 'maybe', reason: 'incident' })).status).toEqual(400)
+            expect((await request('PUT', '', { state: 'ready' })).status).toEqual(400)
+            expect((await request('PUT', '', { state: 'ready', reason: 'incident', ttlInMilliseconds: -1 })).status).toEqual(400)
+            expect((await request('PUT', '/unknown', { state: 'ready', reason: 'incident' })).status).toEqual(404)
+        })
+    })
+
+    it('does not guard other routes when the admin router is mounted at the root', async () => {
+        controller = createReadinessController(createDependencies(true))
+        const app = express()
+        app.use(controller.adminRouter({ authorize: () => false }))
+        app.use(controller.healthRouter())
+        app.get('/users', (req, res) => res.sendStatus(200))
+        const server = await new Promise<Server>(resolve => {
+            const listening = app.listen(0, () => resolve(listening))
+        })
+
+        try {
+            const baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`
+            await waitUntil(() => expect(controller.isReady()).toEqual(true))
+
+            expect((await fetch(`${baseUrl}/users`)).status).toEqual(200)
+            expect((await fetch(`${baseUrl}/ready`)).status).toEqual(200)
+            expect((await fetch(`${baseUrl}/overrides`)).status).toEqual(401)
+        } finally {
+            await new Promise(resolve => server.close(resolve))
+        }
+    })
+})
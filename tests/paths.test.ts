@@ -0,0 +1,64 @@
+import { Request } from "express";
+import { IncomingMessage } from "http";
+import { compilePathMatchers, matchesAny } from "../lib/paths";
+import { PathMatcher } from "../lib";
+
+describe('paths', () => {
+    const request = (originalUrl: string, method: string = 'GET'): Request => ({ originalUrl, method }) as Request
+    const matches = (matcher: PathMatcher, req: Request) => matchesAny(compilePathMatchers([matcher]), req)
+
+    it('matches exact paths case insensitively ignoring the query string', () => {
+        expect(matches('/One/Two', request('/one/two?a=b'))).toEqual(true)
+        expect(matches('/one/two', request('/one/two/three'))).toEqual(false)
+    })
+
+    it('matches single segment globs', () => {
+        expect(matches('/metrics/*', request('/metrics/jvm'))).toEqual(true)
+        expect(matches('/metrics/*', request('/metrics/jvm/heap'))).toEqual(false)
+        expect(matches('/static/*.css', request('/static/site.css'))).toEqual(true)
+    })
+
+    it('matches multi segment globs', () => {
+        expect(matches('/static/**', request('/static/css/site.css'))).toEqual(true)
+        expect(matches('**/health', request('/api/v1/health'))).toEqual(true)
+        expect(matches('/static/**', request('/other/site.css'))).toEqual(false)
+    })
+
+    it('matches route parameters', () => {
+        expect(matches('/users/:id/status', request('/users/123/status'))).toEqual(true)
+        expect(matches('/users/:id/status', request('/users/status'))).toEqual(false)
+    })
+
+    it('matches colons which do not start a segment literally', () => {
+        expect(matches('/v1/things:batchGet', request('/v1/things:batchGet'))).toEqual(true)
+        expect(matches('/v1/things:batchGet', request('/v1/thingsAnything'))).toEqual(false)
+        expect(matches('/v1/:resource:batchGet', request('/v1/things:batchGet'))).toEqual(true)
+        expect(matches('/v1/:resource:batchGet', request('/v1/things'))).toEqual(false)
+    })
+
+    it('escapes regular expression characters in paths', () => {
+        expect(matches('/a.b/*', request('/a.b/c'))).toEqual(true)
+        expect(matches('/a.b/*', request('/axb/c'))).toEqual(false)
+    })
+
+    it('matches regular expressions against the path', () => {
+        expect(matches(/^\/v\d+\/ping$/, request('/v2/ping?x=1'))).toEqual(true)
+        expect(matches(/^\/v\d+\/ping$/g, request('/v2/ping'))).toEqual(true)
+        expect(matches(/^\/v\d+\/ping$/g, request('/v2/ping'))).toEqual(true)
+    })
+
+    it('matches path rules with methods', () => {
+        const rule = { path: '/orders/**', methods: ['get', 'HEAD'] }
+
+        expect(matches(rule, request('/orders/1', 'GET'))).toEqual(true)
+        expect(matches(rule, request('/orders/1', 'POST'))).toEqual(false)
+        expect(matches({ methods: ['OPTIONS'] }, request('/anything', 'OPTIONS'))).toEqual(true)
+    })
+
+    it('matches predicates', () => {
+        const predicate = (req: IncomingMessage) => req.method === 'OPTIONS'
+
+        expect(matches(predicate, request('/anything', 'OPTIONS'))).toEqual(true)
+        expect(matches(predicate, request('/anything', 'GET'))).toEqual(false)
+    })
+})
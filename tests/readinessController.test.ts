@@ -0,0 +1,577 @@
+import { Request, Response } from "express";
+import {
+    createReadinessController,
+    DependencyGraphError,
+    IDependency,
+    IDependencyEvent,
+    IDependencyReadinessState,
+    ReadinessController,
+    ReadinessTimeoutError
+} from "../lib";
+import { sleep, spyOnExit, waitUntil } from "./helpers";
+
+describe('ReadinessController', () => {
+    const controllers: ReadinessController[] = []
+
+    const createController = (...args: Parameters<typeof createReadinessController>) => {
+        const controller = createReadinessController(...args)
+        controllers.push(controller)
+        return controller
+    }
+
+    afterEach(() => {
+        controllers.splice(0).forEach(controller => controller.stop())
+    })
+
+    it('keeps dependency state scoped to each controller', async () => {
+        const readyDependencies: IDependency[] = [
+            {
+                data: {},
+                critical: true,
+                isReady: () => Promise.resolve(true),
+                name: 'ready-dependency',
+                retryIntervalInMilliseconds: 10
+            }
+        ]
+        const notReadyDependencies: IDependency[] = [
+            {
+                data: {},
+                critical: true,
+                isReady: () => Promise.resolve(false),
+                name: 'not-ready-dependency',
+                retryIntervalInMilliseconds: 10
+            }
+        ]
+
+        const readyController = createController(readyDependencies)
+        const notReadyController = createController(notReadyDependencies)
+
+        await waitUntil(() => expect(readyController.isReady()).toEqual(true))
+
+        expect(notReadyController.isReady()).toEqual(false)
+    })
+
+    it('returns a middleware bound to the controller', async () => {
+        const controller = createController([
+            {
+                data: {},
+                critical: true,
+                isReady: () => Promise.resolve(false),
+                name: 'dependency',
+                retryIntervalInMilliseconds: 10
+            }
+        ])
+
+        let status: number = undefined
+        const headers: {[key: string]: string} = {}
+        let nextCalled = false
+        // @ts-ignore
+        const request: Request = { originalUrl: '/test' }
+        // @ts-ignore
+        const response: Response = {
+            // @ts-ignore
+            set: (name: string, value: string) => { headers[name] = value },
+            // @ts-ignore
+            sendStatus: (code: number) => { status = code }
+        }
+
+        controller.middleware()(request, response, () => { nextCalled = true })
+
+        expect(status).toEqual(503)
+        expect(headers).toEqual({ 'Retry-After': '2' })
+        expect(nextCalled).toEqual(false)
+    })
+
+    it('only rejects guarded paths when guardedPaths is defined', async () => {
+        const controller = createController([
+            {
+                data: {},
+                critical: true,
+                isReady: () => Promise.resolve(false),
+                name: 'dependency',
+                retryIntervalInMilliseconds: 10
+            }
+        ], {
+            guardedPaths: ['/api/**'],
+            whitelistedPaths: [{ path: '/api/docs', methods: ['GET'] }]
+        })
+        const statuses: number[] = []
+        const middleware = controller.middleware()
+        const call = (originalUrl: string, method: string = 'GET') => {
+            let nextCalled = false
+            // @ts-ignore
+            const response: Response = { set: () => {}, sendStatus: (code: number) => { statuses.push(code) } }
+            middleware({ originalUrl, method } as Request, response, () => { nextCalled = true })
+            return nextCalled
+        }
+
+        expect(call('/api/orders')).toEqual(false)
+        expect(call('/api/docs')).toEqual(true)
+        expect(call('/api/docs', 'POST')).toEqual(false)
+        expect(call('/home')).toEqual(true)
+        expect(statuses).toEqual([503, 503])
+    })
+
+    it('stops checking readiness when stopped', async () => {
+        let attempts = 0
+        const controller = createController([
+            {
+                data: {},
+                critical: true,
+                isReady: () => {
+                    attempts++
+                    return Promise.resolve(false)
+                },
+                name: 'dependency',
+                retryIntervalInMilliseconds: 10
+            }
+        ])
+
+        await waitUntil(() => expect(attempts).toBeGreaterThan(0))
+        controller.stop()
+        const attemptsWhenStopped = attempts
+        await sleep(50)
+
+        expect(attempts).toEqual(attemptsWhenStopped)
+    })
+
+    describe('onReadinessTimeout', () => {
+        const createDependencies = (isReady: () => Promise<boolean>): IDependency[] => [
+            {
+                data: { url: 'https://api.co.uk' },
+                critical: true,
+                isReady,
+                name: 'dependency',
+                retryIntervalInMilliseconds: 10
+            }
+        ]
+
+        it('rejects pending whenReady promises with the dependency states', async () => {
+            const controller = createController(createDependencies(() => Promise.resolve(false)), {
+                maximumWaitTimeForServiceReadinessInMilliseconds: 50,
+                onReadinessTimeout: { action: 'reject' }
+            })
+
+            const error = await controller.whenReady().catch(err => err)
+
+            expect(error).toBeInstanceOf(ReadinessTimeoutError)
+            expect(error.dependencies).toEqual([
+                { name: 'dependency', data: { url: 'https://api.co.uk' }, ready: false }
+            ])
+            await expect(controller.whenReady()).rejects.toBe(error)
+        })
+
+        it('calls a custom callback with the dependency states', async () => {
+            const states: IDependencyReadinessState[][] = []
+            createController(createDependencies(() => Promise.resolve(false)), {
+                maximumWaitTimeForServiceReadinessInMilliseconds: 50,
+                onReadinessTimeout: (dependencies) => states.push(dependencies)
+            })
+
+            await waitUntil(() => expect(states).toEqual([
+                [{ name: 'dependency', data: { url: 'https://api.co.uk' }, ready: false }]
+            ]))
+        })
+
+        it('keeps checking readiness when retrying', async () => {
+            let ready = false
+            const controller = createController(createDependencies(() => Promise.resolve(ready)), {
+                maximumWaitTimeForServiceReadinessInMilliseconds: 20,
+                onReadinessTimeout: { action: 'retry' }
+            })
+
+            await sleep(50)
+            expect(controller.isReady()).toEqual(false)
+
+            ready = true
+            await controller.whenReady()
+            expect(controller.isReady()).toEqual(true)
+        })
+
+        it('exits the process with the configured code', async () => {
+            const exit = spyOnExit()
+
+            try {
+                createController(createDependencies(() => Promise.resolve(false)), {
+                    maximumWaitTimeForServiceReadinessInMilliseconds: 20,
+                    onReadinessTimeout: { action: 'exit', exitCode: 3 }
+                })
+
+                await waitUntil(() => expect(exit).toHaveBeenCalledWith(3))
+            } finally {
+                exit.mockRestore()
+            }
+        })
+    })
+
+    describe('check timeouts and backoff', () => {
+        it('treats a check which does not complete in time as not ready', async () => {
+            const messages: string[] = []
+            let attempts = 0
+            const controller = createController([
+                {
+                    data: {},
+                    critical: true,
+                    isReady: () => {
+                        attempts++
+                        return attempts === 1 ? new Promise<boolean>(() => {}) : Promise.resolve(true)
+                    },
+                    name: 'dependency',
+                    retryIntervalInMilliseconds: 10,
+                    checkTimeoutInMilliseconds: 20
+                }
+            ], undefined, { log: (message) => messages.push(message) })
+
+            await controller.whenReady()
+
+            expect(attempts).toEqual(2)
+            expect(messages).toContain("An error occurred while checking health for critical dependency 'dependency', check timed out after 20 milliseconds")
+        })
+
+        it('backs off between readiness checks', async () => {
+            const attemptTimes: number[] = []
+            const controller = createController([
+                {
+                    data: {},
+                    critical: true,
+                    isReady: () => {
+                        attemptTimes.push(Date.now())
+                        return Promise.resolve(attemptTimes.length === 4)
+                    },
+                    name: 'dependency'
+                }
+            ], {
+                backoff: {
+                    initialIntervalInMilliseconds: 10,
+                    multiplier: 3,
+                    maximumIntervalInMilliseconds: 1000
+                }
+            })
+
+            await controller.whenReady()
+
+            expect(attemptTimes[3] - attemptTimes[2]).toBeGreaterThanOrEqual(85)
+            expect(attemptTimes[3] - attemptTimes[0]).toBeGreaterThanOrEqual(125)
+        })
+
+        it('retries health checks using the configured number of attempts', async () => {
+            let attempts = 0
+            const controller = createController([
+                {
+                    data: {},
+                    critical: false,
+                    isReady: () => Promise.resolve(++attempts === 3),
+                    name: 'dependency'
+                }
+            ], {
+                healthCheckAttempts: 3,
+                backoff: { initialIntervalInMilliseconds: 5 }
+            })
+
+            const health = await controller.checkHealth()
+
+            expect(attempts).toEqual(3)
+            expect(health.allDependenciesHealthy).toEqual(true)
+        })
+    })
+
+    describe('events', () => {
+        it('emits dependency and service lifecycle events', async () => {
+            let attempts = 0
+            const controller = createController([
+                {
+                    data: { url: 'https://api.co.uk' },
+                    critical: true,
+                    isReady: () => {
+                        attempts++
+
+                        if (attempts === 1)
+                            return Promise.reject(new Error('connection refused'))
+
+                        return Promise.resolve(attempts === 3)
+                    },
+                    name: 'dependency',
+                    retryIntervalInMilliseconds: 10
+                }
+            ])
+            const events: string[] = []
+            let checkFailedEvent: IDependencyEvent
+            let readyEvent: IDependencyEvent
+
+            controller.on('dependencyCheckFailed', event => {
+                checkFailedEvent = event
+                events.push(`dependencyCheckFailed:${event.attempt}`)
+            })
+            controller.on('dependencyUnhealthy', event => events.push(`dependencyUnhealthy:${event.attempt}`))
+            controller.on('dependencyReady', event => {
+                readyEvent = event
+                events.push(`dependencyReady:${event.attempt}`)
+            })
+            controller.on('serviceReady', () => events.push('serviceReady'))
+
+            await controller.whenReady()
+
+            expect(events).toEqual([
+                'dependencyCheckFailed:1',
+                'dependencyUnhealthy:2',
+                'dependencyReady:3',
+                'serviceReady'
+            ])
+            expect(checkFailedEvent.error.message).toEqual('connection refused')
+            expect(readyEvent.name).toEqual('dependency')
+            expect(readyEvent.data).toEqual({ url: 'https://api.co.uk' })
+            expect(readyEvent.critical).toEqual(true)
+            expect(readyEvent.durationInMilliseconds).toBeGreaterThanOrEqual(0)
+            expect(readyEvent.timestamp).toBeInstanceOf(Date)
+        })
+
+        it('emits serviceNotReady when a critical dependency regresses', async () => {
+            let healthy = true
+            const controller = createController([
+                {
+                    data: {},
+                    critical: true,
+                    isReady: () => Promise.resolve(true),
+                    isHealthy: () => Promise.resolve(healthy),
+                    name: 'dependency'
+                }
+            ], {
+                continuousMonitoring: true,
+                monitoringIntervalInMilliseconds: 10,
+                consecutiveFailuresBeforeNotReady: 1
+            })
+            let serviceNotReady = false
+            controller.once('serviceNotReady', () => serviceNotReady = true)
+
+            await controller.whenReady()
+            healthy = false
+
+            await waitUntil(() => expect(serviceNotReady).toEqual(true))
+        })
+
+        it('emits readinessTimeout with the dependency states', async () => {
+            const controller = createController([
+                {
+                    data: {},
+                    critical: true,
+                    isReady: () => Promise.resolve(false),
+                    name: 'dependency',
+                    retryIntervalInMilliseconds: 10
+                }
+            ], {
+                maximumWaitTimeForServiceReadinessInMilliseconds: 30,
+                onReadinessTimeout: { action: 'reject' }
+            })
+            let dependencies: IDependencyReadinessState[]
+            controller.on('readinessTimeout', event => dependencies = event.dependencies)
+
+            await controller.whenReady().catch(() => {})
+
+            expect(dependencies).toEqual([{ name: 'dependency', data: {}, ready: false }])
+        })
+
+        it('logs errors thrown by listeners without interrupting readiness checks', async () => {
+            const messages: string[] = []
+            const controller = createController([
+                {
+                    data: {},
+                    critical: true,
+                    isReady: () => Promise.resolve(true),
+                    name: 'dependency'
+                }
+            ], undefined, { log: (message) => messages.push(message) })
+            controller.on('dependencyReady', () => { throw new Error('listener failed') })
+
+            await controller.whenReady()
+
+            expect(messages).toContain("An error occurred in a 'dependencyReady' event listener, error: listener failed")
+        })
+    })
+
+    describe('continuous monitoring', () => {
+        it('becomes not ready after consecutive failures and recovers once checks pass again', async () => {
+            let healthy = true
+            let healthChecks = 0
+            const controller = createController([
+                {
+                    data: {},
+                    critical: true,
+                    isReady: () => Promise.resolve(true),
+                    isHealthy: () => {
+                        healthChecks++
+                        return Promise.resolve(healthy)
+                    },
+                    name: 'dependency',
+                    retryIntervalInMilliseconds: 10
+                }
+            ], {
+                continuousMonitoring: true,
+                monitoringIntervalInMilliseconds: 10,
+                consecutiveFailuresBeforeNotReady: 2
+            })
+
+            await waitUntil(() => expect(controller.isReady()).toEqual(true))
+
+            healthy = false
+            const healthChecksWhenUnhealthy = healthChecks
+            await waitUntil(() => expect(controller.isReady()).toEqual(false))
+            expect(healthChecks - healthChecksWhenUnhealthy).toBeGreaterThanOrEqual(2)
+
+            healthy = true
+            await waitUntil(() => expect(controller.isReady()).toEqual(true))
+        })
+
+        it('does not check dependencies once ready when disabled', async () => {
+            let healthChecks = 0
+            const controller = createController([
+                {
+                    data: {},
+                    critical: true,
+                    isReady: () => Promise.resolve(true),
+                    isHealthy: () => {
+                        healthChecks++
+                        return Promise.resolve(false)
+                    },
+                    name: 'dependency',
+                    retryIntervalInMilliseconds: 10
+                }
+            ], {
+                monitoringIntervalInMilliseconds: 10
+            })
+
+            await waitUntil(() => expect(controller.isReady()).toEqual(true))
+            await sleep(50)
+
+            expect(healthChecks).toEqual(0)
+            expect(controller.isReady()).toEqual(true)
+        })
+    })
+
+    describe('degraded mode', () => {
+        const createResponse = () => {
+            const result = { status: undefined as number }
+            // @ts-ignore
+            const response: Response = {
+                // @ts-ignore
+                set: () => {},
+                // @ts-ignore
+                sendStatus: (code: number) => { result.status = code }
+            }
+
+            return { result, response }
+        }
+
+        it('only rejects routes requiring a non-critical dependency which is not ready', async () => {
+            let searchReady = false
+            const controller = createController([
+                {
+                    data: {},
+                    critical: true,
+                    isReady: () => Promise.resolve(true),
+                    name: 'database',
+                    retryIntervalInMilliseconds: 10
+                },
+                {
+                    data: {},
+                    critical: false,
+                    isReady: () => Promise.resolve(searchReady),
+                    name: 'search',
+                    retryIntervalInMilliseconds: 10
+                }
+            ])
+            const requireSearch = controller.requireDependencies('search')
+
+            await waitUntil(() => expect(controller.isReady()).toEqual(true))
+            expect(controller.isDegraded()).toEqual(true)
+
+            // @ts-ignore
+            const request: Request = { originalUrl: '/search' }
+            const rejected = createResponse()
+            let nextCalled = false
+            controller.middleware()(request, rejected.response, () => { nextCalled = true })
+            requireSearch(request, rejected.response, () => { throw new Error('should not be called') })
+
+            expect(nextCalled).toEqual(true)
+            expect(rejected.result.status).toEqual(503)
+
+            searchReady = true
+            await waitUntil(() => expect(controller.isDependencyReady('search')).toEqual(true))
+            nextCalled = false
+            requireSearch(request, createResponse().response, () => { nextCalled = true })
+
+            expect(nextCalled).toEqual(true)
+            expect(controller.isDegraded()).toEqual(false)
+        })
+
+        it('keeps the service ready when a required non-critical dependency regresses', async () => {
+            let searchHealthy = true
+            const controller = createController([
+                {
+                    data: {},
+                    critical: true,
+                    isReady: () => Promise.resolve(true),
+                    name: 'database',
+                    retryIntervalInMilliseconds: 10
+                },
+                {
+                    data: {},
+                    critical: false,
+                    isReady: () => Promise.resolve(true),
+                    isHealthy: () => Promise.resolve(searchHealthy),
+                    name: 'search',
+                    retryIntervalInMilliseconds: 10
+                }
+            ], {
+                monitoringIntervalInMilliseconds: 10,
+                consecutiveFailuresBeforeNotReady: 1
+            })
+            controller.requireDependencies('search')
+
+            await waitUntil(() => expect(controller.isDependencyReady('search')).toEqual(true))
+            searchHealthy = false
+            await waitUntil(() => expect(controller.isDegraded()).toEqual(true))
+
+            expect(controller.isReady()).toEqual(true)
+        })
+
+        it('throws when requiring an unknown dependency', () => {
+            const controller = createController([])
+
+            expect(() => controller.requireDependencies('unknown')).toThrow(DependencyGraphError)
+        })
+    })
+
+    it('checks the health of its dependencies', async () => {
+        const controller = createController([
+            {
+                data: { url: 'https://api.co.uk' },
+                critical: false,
+                isReady: () => Promise.resolve(true),
+                isHealthy: () => Promise.resolve(false),
+                name: 'dependency'
+            }
+        ])
+
+        const health = await controller.checkHealth()
+
+        expect(health).toEqual({
+            allDependenciesHealthy: false,
+            allCriticalDependenciesHealthy: true,
+            degraded: true,
+            timestamp: expect.any(Date),
+            dependencies: [
+                {
+                    name: 'dependency',
+                    data: { url: 'https://api.co.uk' },
+                    healthy: false,
+                    critical: false,
+                    lastCheckedAt: expect.any(Date),
+                    ageInMilliseconds: expect.any(Number),
+                    latencyInMilliseconds: expect.any(Number),
+                    lastFailureAt: expect.any(Date),
+                    consecutiveFailures: 1
+                }
+            ]
+        })
+    })
+})
@@ -0,0 +1,139 @@
+import {
+    checkDependenciesHealth,
+    createReadinessController,
+    createStartupTask,
+    IDependency,
+    IStartupTaskContext,
+    IStructuredLogger,
+    ReadinessController,
+    StartupTaskError
+} from "../lib";
+import { sleep, waitUntil } from "./helpers";
+
+describe('startup tasks', () => {
+    it('runs once and is ready once an attempt succeeds', async () => {
+        let runs = 0
+        const task = createStartupTask({
+            name: 'cache-preload',
+            run: async ({ reportProgress }) => {
+                runs++
+                reportProgress({ loadedKeys: 100 })
+            }
+        })
+
+        const results = await Promise.all([task.isReady(), task.isReady()])
+
+        expect(results).toEqual([true, true])
+        expect(await task.isReady()).toEqual(true)
+        expect(runs).toEqual(1)
+        expect(task).toMatchObject({ critical: true, data: { type: 'startupTask' } })
+        expect(await task.isHealthy()).toEqual({
+            healthy: true,
+            details: {
+                state: 'completed',
+                attempts: 1,
+                maximumAttempts: 3,
+                startedAt: expect.any(Date),
+                finishedAt: expect.any(Date),
+                progress: { loadedKeys: 100 }
+            }
+        })
+    })
+
+    it('fails with a StartupTaskError once every attempt has failed', async () => {
+        let runs = 0
+        const task = createStartupTask({
+            name: 'migration-check',
+            attempts: 2,
+            run: async () => {
+                runs++
+                throw new Error('pending migrations')
+            }
+        })
+
+        await expect(task.isReady()).rejects.toThrow('pending migrations')
+        await expect(task.isReady()).rejects.toThrow(StartupTaskError)
+        await expect(task.isReady()).rejects.toThrow("startup task 'migration-check' failed after 2 attempts, pending migrations")
+
+        expect(runs).toEqual(2)
+        expect(await task.isHealthy()).toMatchObject({
+            healthy: false,
+            details: { state: 'failed', attempts: 2, error: { message: 'pending migrations', type: 'Error' } }
+        })
+    })
+
+    it('aborts and retries an attempt which times out', async () => {
+        const contexts: IStartupTaskContext[] = []
+        const task = createStartupTask({
+            name: 'templates',
+            timeoutInMilliseconds: 20,
+            run: async context => {
+                contexts.push(context)
+
+                if (context.attempt === 1)
+                    await sleep(100)
+            }
+        })
+
+        await expect(task.isReady()).rejects.toThrow('check timed out after 20 milliseconds')
+        expect(contexts[0].signal.aborted).toEqual(true)
+        expect(await task.isReady()).toEqual(true)
+    })
+
+    it('reports progress of a running task without running it from health checks', async () => {
+        let runs = 0
+        const task = createStartupTask({
+            name: 'cache-preload',
+            run: async () => {
+                runs++
+            }
+        })
+
+        const health = await checkDependenciesHealth([task])
+
+        expect(runs).toEqual(0)
+        expect(health.dependencies[0]).toMatchObject({
+            name: 'cache-preload',
+            healthy: false,
+            details: { state: 'pending', attempts: 0 }
+        })
+    })
+
+    describe('readiness controller', () => {
+        let controller: ReadinessController
+
+        afterEach(() => {
+            controller?.stop()
+        })
+
+        it('gates readiness until startup tasks complete and logs failed attempts like dependencies', async () => {
+            const messages: string[] = []
+            const log = (message: string) => messages.push(message)
+            const logger:IStructuredLogger = { debug: log, info: log, warn: log, error: log }
+            let completeWarmUp: () => void
+            const database:IDependency = { data: {}, critical: true, isReady: () => Promise.resolve(true), name: 'database', retryIntervalInMilliseconds: 10 }
+            const warmUp = createStartupTask({
+                name: 'warm-up',
+                retryIntervalInMilliseconds: 10,
+                dependsOn: ['database'],
+                run: ({ attempt }) => attempt === 1
+                    ? Promise.reject(new Error('cache unavailable'))
+                    : new Promise<void>(resolve => {
+                        completeWarmUp = resolve
+                    })
+            })
+            controller = createReadinessController([database, warmUp], undefined, logger)
+
+            await waitUntil(() => expect(completeWarmUp).toBeDefined())
+
+            expect(controller.isReady()).toEqual(false)
+            expect(controller.getPendingDependencies()).toEqual(['warm-up'])
+            expect(messages).toContain("An error occurred while checking health for critical dependency 'warm-up', error: cache unavailable")
+
+            completeWarmUp()
+            await waitUntil(() => expect(controller.isReady()).toEqual(true))
+
+            expect(messages).toContain("critical dependency 'warm-up' is ready")
+        })
+    })
+})